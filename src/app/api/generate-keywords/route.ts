@@ -1,10 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { getLLMClient, LLMClient } from '@/lib/ai/llm-client';
+import { renderPrompt } from '@/lib/ai/prompt-registry';
 
 interface GenerateKeywordsRequest {
   refinedIdea: string;
   targetAudience: string;
   problemSolved: string;
+  validationId?: string;   // Records token usage against this validation
 }
 
 interface RecommendedSubreddit {
@@ -23,7 +25,7 @@ interface GenerateKeywordsResponse {
 
 export async function POST(request: NextRequest) {
   try {
-    const { refinedIdea, targetAudience, problemSolved }: GenerateKeywordsRequest = await request.json();
+    const { refinedIdea, targetAudience, problemSolved, validationId }: GenerateKeywordsRequest = await request.json();
 
     if (!refinedIdea || !targetAudience || !problemSolved) {
       return NextResponse.json(
@@ -32,47 +34,25 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (!process.env.GEMINI_API_KEY) {
+    let llm: LLMClient;
+    try {
+      llm = getLLMClient('keywords', { validationId, prompt: 'subredditDiscovery' });
+    } catch (configError) {
       return NextResponse.json(
-        { error: 'API key not configured' },
+        { error: 'AI provider not configured', details: configError instanceof Error ? configError.message : String(configError) },
         { status: 500 }
       );
     }
 
     console.log('🎯 Generating Reddit keywords for:', refinedIdea.substring(0, 50) + '...');
 
-    const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY);
-    const model = genAI.getGenerativeModel({ model: 'gemini-2.0-flash-exp' });
-
-    const prompt = `Based on your knowledge of active Reddit communities, analyze this startup idea and recommend the best subreddits to search for user discussions:
-
-STARTUP IDEA: "${refinedIdea}"
-TARGET AUDIENCE: "${targetAudience}"  
-PROBLEM SOLVED: "${problemSolved}"
-
-Use your knowledge of Reddit to recommend 5-10 active subreddits where people likely discuss problems related to this idea. Focus on communities with good engagement and relevant discussions.
-
-IMPORTANT: Respond with ONLY valid JSON in this exact format. No markdown, no additional text:
-
-{
-  "recommendedSubreddits": [
-    {
-      "name": "subreddit_name_without_r_slash",
-      "reason": "Brief explanation of why this community is relevant",
-      "memberCount": "estimated member count like '2.5M' or 'large' or 'medium'",
-      "activityLevel": "high/medium/low activity level"
-    }
-  ],
-  "searchKeywords": ["5-8 specific keywords that people use when discussing this problem"],
-  "focusQueries": ["4-6 search queries that would find relevant discussions"],
-  "painPointQueries": ["3-5 queries focused on finding frustrated users complaining about this problem"]
-}
-
-Focus on real, active subreddits that exist and have engaged communities discussing these topics.`;
+    const prompt = renderPrompt('subredditDiscovery', {
+      oneLiner: refinedIdea,
+      targetAudience,
+      problemSolved
+    });
 
-    const result = await model.generateContent(prompt);
-    const response = await result.response;
-    const aiText = response.text();
+    const { text: aiText } = await llm.generate(prompt);
 
     console.log('🤖 AI response for keywords:', aiText.substring(0, 200) + '...');
 
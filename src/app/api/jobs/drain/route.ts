@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiResponse } from '@/types/api';
+import { drainValidationQueue } from '@/lib/jobs/validation-worker';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300;
+
+// Leaves headroom under maxDuration for a step that is still running when the slice ends
+const DEFAULT_SLICE_MS = 240000;
+
+// Called by the scheduler (vercel.json crons) in cron worker mode: works through the
+// validation queue for one time slice, then hands unfinished jobs back to the queue
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    const response: ApiResponse = {
+      success: false,
+      error: 'Queue drain is not configured',
+      message: 'Set CRON_SECRET to enable this endpoint',
+    };
+    return NextResponse.json(response, { status: 503 });
+  }
+
+  if (request.headers.get('authorization') !== `Bearer ${secret}`) {
+    const response: ApiResponse = {
+      success: false,
+      error: 'Unauthorized',
+    };
+    return NextResponse.json(response, { status: 401 });
+  }
+
+  try {
+    const sliceMs = Number(process.env.WORKER_SLICE_MS) || DEFAULT_SLICE_MS;
+    const result = await drainValidationQueue(sliceMs);
+
+    const response: ApiResponse = {
+      success: true,
+      data: result,
+    };
+
+    return NextResponse.json(response, { status: 200 });
+
+  } catch (error) {
+    console.error('Queue drain error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'Internal server error',
+      message: 'Failed to drain the validation queue',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
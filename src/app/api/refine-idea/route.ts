@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { getLLMClient, LLMClient } from '@/lib/ai/llm-client';
+import { CircuitOpenError, isRetryableError } from '@/lib/ai/call-policy';
+import { renderPrompt } from '@/lib/ai/prompt-registry';
+import { holdRefinementUsage } from '@/lib/ai/token-usage';
 
 interface RefineIdeaRequest {
   idea: string;
@@ -29,65 +32,37 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (!process.env.GEMINI_API_KEY) {
+    let llm: LLMClient;
+    try {
+      llm = getLLMClient('refineIdea', { prompt: 'refineIdea' });
+    } catch (configError) {
       return NextResponse.json(
-        { error: 'API key not configured' },
+        { error: 'AI provider not configured', details: configError instanceof Error ? configError.message : String(configError) },
         { status: 500 }
       );
     }
 
     console.log('🚀 Refining idea:', idea.substring(0, 50) + '...');
 
-    const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY);
-    const model = genAI.getGenerativeModel({ model: 'gemini-2.0-flash-exp' });
-
-    const prompt = `Refine this startup idea: "${idea}". 
-
-IMPORTANT: Respond with ONLY valid JSON in this exact format. No markdown, no additional text:
+    const prompt = renderPrompt('refineIdea', { idea });
 
-{"oneLiner": "A clear, compelling one-sentence description of the refined idea", "targetAudience": "Specific target market and user demographics", "problem": "The main problem this startup solves"}
-
-Ensure the JSON is properly formatted and contains all three fields.`;
-
-    // Retry logic for API overload
+    // Overloads and rate limits are retried by the shared call policy; this only reports a give-up
     let result;
-    let retryCount = 0;
-    const maxRetries = 3;
-    
-    while (retryCount < maxRetries) {
-      try {
-        result = await model.generateContent(prompt);
-        break; // Success, exit retry loop
-      } catch (apiError: any) {
-        retryCount++;
-        
-        if (apiError.message?.includes('overloaded') || apiError.message?.includes('503')) {
-          if (retryCount < maxRetries) {
-            console.log(`⏳ API overloaded, retrying (${retryCount}/${maxRetries}) in 2 seconds...`);
-            await new Promise(resolve => setTimeout(resolve, 2000 * retryCount)); // Exponential backoff
-            continue;
-          } else {
-            return NextResponse.json({
-              error: 'AI service temporarily unavailable',
-              details: 'Google AI is currently overloaded. Please try again in a few minutes.',
-              retryAfter: 60
-            }, { status: 503 });
-          }
-        } else {
-          throw apiError; // Re-throw non-overload errors
-        }
+    try {
+      result = await llm.generate(prompt);
+    } catch (apiError) {
+      if (apiError instanceof CircuitOpenError || isRetryableError(apiError)) {
+        const retryAfterMs = apiError.retryAfterMs;
+        return NextResponse.json({
+          error: 'AI service temporarily unavailable',
+          details: 'The AI provider is currently overloaded. Please try again in a few minutes.',
+          retryAfter: Math.ceil((retryAfterMs ?? 60000) / 1000)
+        }, { status: 503 });
       }
+      throw apiError;
     }
-    
-    if (!result) {
-      return NextResponse.json({
-        error: 'AI service unavailable',
-        details: 'Failed to get response after maximum retries'
-      }, { status: 503 });
-    }
-    
-    const response = await result.response;
-    const aiText = response.text();
+
+    const aiText = result.text;
 
     console.log('🤖 AI response:', aiText);
 
@@ -120,7 +95,14 @@ Ensure the JSON is properly formatted and contains all three fields.`;
 
     console.log('✅ Successfully refined idea');
     
-    return NextResponse.json(parsedResponse);
+    // No validation exists yet, so the usage is held here and claimed by /api/validate/start
+    const refinementId = await holdRefinementUsage({
+      provider: result.provider,
+      model: result.model,
+      ...result.usage,
+      ...(result.cached && { cached: true })
+    });
+    return NextResponse.json({ ...parsedResponse, refinementId });
 
   } catch (error) {
     console.error('💥 Unexpected error:', error);
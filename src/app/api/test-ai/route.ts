@@ -1,39 +1,44 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { getLLMClient, PROVIDER_NAMES, resolveLLMConfig } from '@/lib/ai/llm-client';
+import { getResponseCacheStats } from '@/lib/ai/response-cache';
 
 export async function GET() {
   try {
-    console.log('🔑 Testing Gemini API...');
-    console.log('📝 API Key available:', !!process.env.GEMINI_API_KEY);
-    console.log('🆔 API Key prefix:', process.env.GEMINI_API_KEY?.substring(0, 10) + '...');
-    
-    const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || '');
-    const model = genAI.getGenerativeModel({ model: 'gemini-2.0-flash-exp' });
+    const llm = getLLMClient('test');
+    console.log(`🔑 Testing ${PROVIDER_NAMES[llm.provider]} (${llm.model})...`);
 
     const prompt = 'Return only this JSON: {"test": "success", "message": "API is working"}';
     
-    const result = await model.generateContent(prompt);
-    const response = result.response;
-    const text = response.text();
+    const { text } = await llm.generate(prompt);
     
     console.log('✅ Raw API response:', text);
     
     return NextResponse.json({
       success: true,
-      apiKeyPresent: !!process.env.GEMINI_API_KEY,
-      apiKeyPrefix: process.env.GEMINI_API_KEY?.substring(0, 10) + '...',
+      provider: llm.provider,
+      model: llm.model,
       rawResponse: text,
-      parsedResponse: JSON.parse(text.replace(/```json\n?/g, '').replace(/```\n?$/g, '').trim())
+      parsedResponse: JSON.parse(text.replace(/```json\n?/g, '').replace(/```\n?$/g, '').trim()),
+      responseCache: getResponseCacheStats()
     });
     
   } catch (error) {
-    console.error('❌ Gemini test failed:', error);
+    console.error('❌ AI provider test failed:', error);
     
     return NextResponse.json({
       success: false,
       error: error instanceof Error ? error.message : 'Unknown error',
-      apiKeyPresent: !!process.env.GEMINI_API_KEY,
-      apiKeyPrefix: process.env.GEMINI_API_KEY?.substring(0, 10) + '...',
+      ...describeTestConfig(),
     }, { status: 500 });
   }
-}
\ No newline at end of file
+}
+
+// Provider settings for the error response; resolving can itself fail on a bad LLM_PROVIDER
+function describeTestConfig() {
+  try {
+    const config = resolveLLMConfig('test');
+    return { provider: config.provider, model: config.model, apiKeyPresent: !!config.apiKey };
+  } catch {
+    return {};
+  }
+}
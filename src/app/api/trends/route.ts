@@ -1,13 +1,61 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { ApiResponse } from '@/types/api';
+import { fetchTrends, TrendsRequestError } from '@/lib/api/google-trends';
 
+const TrendsQuerySchema = z.object({
+  keyword: z.string().trim().min(1).max(100),
+});
+
+// Google Trends interest, related queries and regions for one keyword
 export async function GET(request: NextRequest) {
-  return NextResponse.json({ 
-    message: 'Trends API endpoint - use validation endpoints for trend analysis' 
-  }, { status: 200 });
+  try {
+    const { searchParams } = new URL(request.url);
+    const { keyword } = TrendsQuerySchema.parse({ keyword: searchParams.get('keyword') ?? undefined });
+
+    const trendsData = await fetchTrends(keyword);
+
+    const response: ApiResponse = {
+      success: true,
+      data: trendsData,
+    };
+
+    return NextResponse.json(response, { status: 200 });
+
+  } catch (error) {
+    console.error('Trends lookup error:', error);
+
+    if (error instanceof z.ZodError) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Invalid request parameters',
+        message: error.issues.map(e => `${e.path.join('.')}: ${e.message}`).join(', '),
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    if (error instanceof TrendsRequestError) {
+      const rateLimited = error.status === 429;
+      const response: ApiResponse = {
+        success: false,
+        error: rateLimited ? 'Google Trends rate limit reached' : 'Google Trends unavailable',
+        message: error.message,
+      };
+      return NextResponse.json(response, { status: rateLimited ? 503 : 502 });
+    }
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'Internal server error',
+      message: 'Failed to fetch trends data',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
 }
 
 export async function POST() {
-  return NextResponse.json({ 
-    message: 'Use GET method' 
+  return NextResponse.json({
+    message: 'Use GET method'
   }, { status: 405 });
-}
\ No newline at end of file
+}
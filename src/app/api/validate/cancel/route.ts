@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { ApiResponse } from '@/types/api';
+import { loadValidation, updateValidation } from '@/lib/storage/json';
+import { cancelJob, findJobByValidationId } from '@/lib/jobs/job-queue';
+import { publishValidationEvent } from '@/lib/processing/progress-events';
+
+const CancelValidationSchema = z.object({
+  validationId: z.string().min(1),
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { validationId } = CancelValidationSchema.parse(body);
+
+    const validation = await loadValidation(validationId);
+    if (!validation) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Validation not found',
+        message: `No validation found with ID: ${validationId}`,
+      };
+      return NextResponse.json(response, { status: 404 });
+    }
+
+    if (validation.status !== 'PENDING' && validation.status !== 'PROCESSING') {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Validation cannot be cancelled',
+        message: `Only queued or running validations can be cancelled (current status: ${validation.status})`,
+      };
+      return NextResponse.json(response, { status: 409 });
+    }
+
+    // The running pipeline notices this status between steps and Reddit queries and stops.
+    // Set only if the validation is still queued or running, in case it finished meanwhile.
+    const cancelled = await updateValidation(validationId, {
+      status: 'CANCELLED',
+      currentStep: 'Validation cancelled',
+      cancelledAt: new Date().toISOString(),
+    }, { expectedStatus: ['PENDING', 'PROCESSING'] });
+    if (!cancelled) {
+      const current = await loadValidation(validationId);
+      const response: ApiResponse = {
+        success: false,
+        error: 'Validation cannot be cancelled',
+        message: `Only queued or running validations can be cancelled (current status: ${current?.status})`,
+      };
+      return NextResponse.json(response, { status: 409 });
+    }
+    publishValidationEvent(validationId, { type: 'status', status: 'CANCELLED', currentStep: 'Validation cancelled' });
+
+    // A queued job can be cancelled right away; a running one is cancelled by its worker
+    const job = await findJobByValidationId(validationId);
+    if (job?.status === 'PENDING') {
+      await cancelJob(job.id);
+    }
+
+    console.log(`🛑 Cancelled validation ${validationId}`);
+
+    const response: ApiResponse = {
+      success: true,
+      data: {
+        validationId,
+        status: 'CANCELLED',
+      },
+      message: 'Validation cancelled successfully',
+    };
+
+    return NextResponse.json(response, { status: 200 });
+
+  } catch (error) {
+    console.error('Cancel validation error:', error);
+
+    if (error instanceof z.ZodError) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Invalid request data',
+        message: error.issues.map(e => `${e.path.join('.')}: ${e.message}`).join(', '),
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'Internal server error',
+      message: 'Failed to cancel validation',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
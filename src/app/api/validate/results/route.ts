@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { ApiResponse } from '@/types/api';
 import { loadValidation } from '@/lib/storage/json';
+import { loadCostBreakdown } from '@/lib/ai/token-usage';
+import { getResearchModules, getResearchModuleInfo } from '@/lib/processing/research-registry';
 
 // Validation schema for query params
 const ResultsQuerySchema = z.object({
@@ -40,6 +42,12 @@ export async function GET(request: NextRequest) {
       return NextResponse.json(response, { status: 400 });
     }
 
+    // Research module outputs, keyed the same way they are stored on the validation
+    const research: { [key: string]: any } = {};
+    for (const researchModule of getResearchModules()) {
+      research[researchModule.resultKey] = validation[researchModule.resultKey] || null;
+    }
+
     // Prepare comprehensive results with safe property access
     const response: ApiResponse = {
       success: true,
@@ -54,15 +62,16 @@ export async function GET(request: NextRequest) {
           // Add the data that dashboard expects
           redditData: validation.redditData || null,
           aiAnalysis: validation.aiAnalysis || null,
+          keywords: validation.keywords || [],
+          recommendedSubreddits: validation.recommendedSubreddits || [],
           totalDataPoints: validation.totalDataPoints || 0,
+          promptVersions: validation.promptVersions || {},
+          costBreakdown: validation.costBreakdown || await loadCostBreakdown(validation.id),
         },
         score: validation.finalScore || null,
-        // Add the new AI research data from pipeline with safe access
-        competitorData: validation.competitorData || null,
-        marketSizeData: validation.marketSizeData || null,
-        scalabilityData: validation.scalabilityData || null,
-        moatData: validation.moatData || null,
-        uvzData: validation.uvzData || null,
+        // Add the AI research data from registered pipeline modules with safe access
+        ...research,
+        researchModules: getResearchModuleInfo(),
         insights: {
           // Market Demand Intelligence
           marketDemand: {
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { ApiResponse } from '@/types/api';
+import { loadValidation, updateValidation } from '@/lib/storage/json';
+import { enqueueJob, findJobByValidationId } from '@/lib/jobs/job-queue';
+import { startValidationWorker, ValidationJobData } from '@/lib/jobs/validation-worker';
+import { ValidationPipeline } from '@/lib/processing/validation-pipeline';
+
+const ResumeValidationSchema = z.object({
+  validationId: z.string().min(1),
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { validationId } = ResumeValidationSchema.parse(body);
+
+    const validation = await loadValidation(validationId);
+    if (!validation) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Validation not found',
+        message: `No validation found with ID: ${validationId}`,
+      };
+      return NextResponse.json(response, { status: 404 });
+    }
+
+    if (validation.status !== 'FAILED' && validation.status !== 'CANCELLED') {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Validation cannot be resumed',
+        message: `Only failed or cancelled validations can be resumed (current status: ${validation.status})`,
+      };
+      return NextResponse.json(response, { status: 409 });
+    }
+
+    // Prefer the original job's input; older records only have it on the job
+    const previousJob = await findJobByValidationId(validationId);
+    const jobData: ValidationJobData = previousJob?.data || {
+      ideaDescription: validation.idea.description,
+      refinedIdeaData: validation.idea.refinedIdeaData,
+    };
+
+    // Ask the pipeline which checkpoints it will reuse, so the reported resume point is the one
+    // the worker actually starts from. Checkpoints it can't match to a current step are re-run.
+    const pipeline = new ValidationPipeline(validationId, jobData.ideaDescription, jobData.refinedIdeaData, validation.stepCheckpoints);
+    const resumeStep = pipeline.getResumeStep();
+    const resumeFromStep = resumeStep?.step ?? 1;
+
+    const resumed = await updateValidation(validationId, {
+      status: 'PENDING',
+      currentStep: `Queued to resume from step ${resumeFromStep}...`,
+      errorMessage: undefined,
+      completedAt: undefined,
+      cancelledAt: undefined,
+    }, { expectedStatus: ['FAILED', 'CANCELLED'] });
+    if (!resumed) {
+      // Another resume request got there first
+      const response: ApiResponse = {
+        success: false,
+        error: 'Validation cannot be resumed',
+        message: 'Validation is already being resumed',
+      };
+      return NextResponse.json(response, { status: 409 });
+    }
+
+    const job = await enqueueJob(validationId, 'VALIDATION_PIPELINE', jobData);
+    startValidationWorker();
+
+    console.log(`♻️ Resuming validation ${validationId} from step ${resumeFromStep}`);
+
+    const response: ApiResponse = {
+      success: true,
+      data: {
+        validationId,
+        jobId: job.id,
+        status: 'PENDING',
+        resumeFromStep,
+        resumeFromStepId: resumeStep?.id,
+        reusedSteps: pipeline.getCheckpointedSteps().map(s => s.id),
+      },
+      message: 'Validation resumed successfully',
+    };
+
+    return NextResponse.json(response, { status: 200 });
+
+  } catch (error) {
+    console.error('Resume validation error:', error);
+
+    if (error instanceof z.ZodError) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Invalid request data',
+        message: error.issues.map(e => `${e.path.join('.')}: ${e.message}`).join(', '),
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'Internal server error',
+      message: 'Failed to resume validation',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
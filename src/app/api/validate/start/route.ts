@@ -2,9 +2,10 @@ import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { ValidationRequest } from '@/types/validation';
 import { ApiResponse } from '@/types/api';
-import { saveValidation, updateValidation } from '@/lib/storage/json';
-// import { extractKeywords } from '@/lib/utils'; // Not used - using AI provider instead
-import { searchRedditDiscussions } from '@/lib/api/reddit';
+import { saveValidation } from '@/lib/storage/json';
+import { claimRefinementUsage } from '@/lib/ai/token-usage';
+import { enqueueJob } from '@/lib/jobs/job-queue';
+import { startValidationWorker, ValidationJobData } from '@/lib/jobs/validation-worker';
 import { ValidationPipeline } from '@/lib/processing/validation-pipeline';
 
 // Validation schema for request body (relaxed for MVP testing)
@@ -19,14 +20,23 @@ const StartValidationSchema = z.object({
       targetAudience: z.string(),
       problem: z.string()
     }).optional(), // AI-refined idea data
+    refinementId: z.uuid().optional(), // Refinement whose server-recorded usage is added to this validation's cost
   }),
+  bypassCache: z.boolean().optional(), // Ask the models again instead of reusing cached responses
+  searchOptions: z.object({
+    timeFilter: z.enum(['hour', 'day', 'week', 'month', 'year', 'all']).optional(),
+    sort: z.enum(['relevance', 'hot', 'top', 'new', 'comments']).optional(),
+    maxPages: z.number().int().min(1).max(10).optional(),
+    minScore: z.number().int().optional(),
+    maxPosts: z.number().int().min(1).max(1000).optional(),
+  }).optional(), // Reddit search window, order and depth
 });
 
 export async function POST(request: NextRequest) {
   try {
     // Parse and validate request body
     const body = await request.json();
-    const { validationId, idea } = StartValidationSchema.parse(body);
+    const { validationId, idea, bypassCache, searchOptions } = StartValidationSchema.parse(body);
 
     console.log('🚀 Starting REAL validation pipeline...');
     
@@ -39,24 +49,39 @@ export async function POST(request: NextRequest) {
         keywords: [], // Will be filled by pipeline
         industry: idea.industry || 'Other',
         targetMarket: idea.targetMarket || 'General Market',
+        refinedIdeaData: idea.refinedIdeaData,
       },
-      status: 'PROCESSING',
+      status: 'PENDING',
       progress: 0,
-      currentStep: 'Initializing validation pipeline with real data sources...',
+      currentStep: 'Queued for validation...',
+      ...(bypassCache && { bypassCache: true }),
+      ...(searchOptions && { searchOptions }),
     };
 
     // Save initial validation
     await saveValidation(validation);
+    if (idea.refinementId) {
+      await claimRefinementUsage(idea.refinementId, validationId);
+    }
+
+    // Hand the pipeline to the background worker instead of running it inside this request
+    const jobData: ValidationJobData = {
+      ideaDescription: idea.description,
+      refinedIdeaData: idea.refinedIdeaData,
+    };
+    const job = await enqueueJob(validationId, 'VALIDATION_PIPELINE', jobData);
+    startValidationWorker();
 
-    // Start REAL validation pipeline (don't await - let it run async)
-    runValidationPipelineAsync(validationId, idea.description, idea.refinedIdeaData);
+    // Based on how long each step has taken in past validations
+    const estimatedTime = await new ValidationPipeline(validationId, idea.description, idea.refinedIdeaData, {}, { searchOptions }).estimateTotalMinutes();
 
     const response: ApiResponse = {
       success: true,
       data: {
         validationId,
-        status: 'PROCESSING',
-        estimatedTime: 12, // minutes
+        jobId: job.id,
+        status: 'PENDING',
+        estimatedTime, // minutes
       },
       message: 'Validation started successfully',
     };
@@ -85,65 +110,6 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// REAL validation pipeline with transparent processing
-async function runValidationPipelineAsync(
-  validationId: string, 
-  ideaDescription: string, 
-  refinedIdeaData?: { oneLiner: string; targetAudience: string; problem: string }
-) {
-  try {
-    console.log(`🚀 Starting REAL validation pipeline for: ${ideaDescription.substring(0, 50)}...`);
-    if (refinedIdeaData) {
-      console.log('🎯 Using refined idea data for AI-powered Reddit targeting');
-    }
-
-    // Initialize pipeline with refined idea data
-    const pipeline = new ValidationPipeline(validationId, ideaDescription, refinedIdeaData);
-    
-    // Execute pipeline with real data sources
-    const result = await pipeline.execute();
-    
-    if (result.success) {
-      // Pipeline completed successfully
-      await updateValidation(validationId, {
-        status: 'COMPLETED',
-        finalScore: result.finalScore,
-        completedAt: new Date().toISOString(),
-        processingSteps: result.steps,
-        totalDataPoints: result.totalDataPoints,
-        // Save all AI research data from pipeline
-        competitorData: result.competitorData,
-        marketSizeData: result.marketSizeData,
-        scalabilityData: result.scalabilityData,
-        moatData: result.moatData,
-        uvzData: result.uvzData
-      });
-
-      console.log(`✅ Validation ${validationId} completed successfully with ${result.totalDataPoints} real data points`);
-    } else {
-      // Pipeline failed
-      await updateValidation(validationId, {
-        status: 'FAILED',
-        currentStep: 'Pipeline execution failed',
-        errorMessage: result.error || 'Unknown pipeline error',
-        processingSteps: result.steps
-      });
-
-      console.log(`❌ Validation ${validationId} failed: ${result.error}`);
-    }
-
-  } catch (error) {
-    console.error(`❌ Pipeline execution failed for validation ${validationId}:`, error);
-    
-    await updateValidation(validationId, {
-      status: 'FAILED',
-      currentStep: 'Critical pipeline error',
-      errorMessage: error instanceof Error ? error.message : 'Critical pipeline failure',
-    });
-  }
-}
-
-
 // Health check endpoint
 export async function GET() {
   return NextResponse.json({ status: 'API is working' });
@@ -58,8 +58,12 @@ export async function GET(request: NextRequest) {
 
     // Calculate estimated time remaining
     let estimatedTimeRemaining: number | undefined;
-    if (validation.status === 'PROCESSING') {
-      // Rough estimation based on progress
+    if (validation.status === 'PROCESSING' && validation.estimatedCompletionAt) {
+      // Projected by the pipeline from historical per-step durations
+      const remainingMs = new Date(validation.estimatedCompletionAt).getTime() - Date.now();
+      estimatedTimeRemaining = Math.max(1, Math.ceil(remainingMs / 60000));
+    } else if (validation.status === 'PROCESSING') {
+      // Rough estimation based on progress for records without a projection
       const timePerPercent = 0.15; // ~0.15 minutes per percent (15 minutes total)
       const remainingProgress = 100 - validation.progress;
       estimatedTimeRemaining = Math.ceil(remainingProgress * timePerPercent);
@@ -73,6 +77,9 @@ export async function GET(request: NextRequest) {
         progress: validation.progress,
         currentStep: validation.currentStep,
         estimatedTimeRemaining,
+        estimatedCompletionAt: validation.estimatedCompletionAt,
+        // Per-step checklist with timestamps, data counts and any failure message
+        processingSteps: validation.processingSteps || [],
         // Include error message if failed
         ...(validation.status === 'FAILED' && validation.errorMessage && {
           errorMessage: validation.errorMessage,
@@ -81,6 +88,10 @@ export async function GET(request: NextRequest) {
         ...(validation.status === 'COMPLETED' && validation.completedAt && {
           completedAt: validation.completedAt,
         }),
+        // Include cancellation timestamp if cancelled
+        ...(validation.status === 'CANCELLED' && validation.cancelledAt && {
+          cancelledAt: validation.cancelledAt,
+        }),
       },
     };
 
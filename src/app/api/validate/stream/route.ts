@@ -0,0 +1,156 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { ApiResponse } from '@/types/api';
+import { ValidationRequest } from '@/types/validation';
+import { loadValidation } from '@/lib/storage/json';
+import { subscribeToValidation, ValidationEvent } from '@/lib/processing/progress-events';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Keeps proxies from closing idle connections, and re-checks the record in case
+// the pipeline runs in another process whose events never reach this one
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+const StreamQuerySchema = z.object({
+  id: z.string().min(1),
+});
+
+const TERMINAL_STATUSES: ValidationRequest['status'][] = ['COMPLETED', 'FAILED', 'CANCELLED'];
+
+function snapshotOf(validation: ValidationRequest) {
+  return {
+    validationId: validation.id,
+    status: validation.status,
+    progress: validation.progress,
+    currentStep: validation.currentStep,
+    processingSteps: validation.processingSteps || [],
+    ...(validation.estimatedCompletionAt && { estimatedCompletionAt: validation.estimatedCompletionAt }),
+    ...(validation.errorMessage && { errorMessage: validation.errorMessage }),
+    ...(validation.completedAt && { completedAt: validation.completedAt }),
+  };
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const { id } = StreamQuerySchema.parse({ id: searchParams.get('id') });
+
+    const validation = await loadValidation(id);
+    if (!validation) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Validation not found',
+        message: `No validation found with ID: ${id}`,
+      };
+      return NextResponse.json(response, { status: 404 });
+    }
+
+    const encoder = new TextEncoder();
+    // Shared with cancel(): once the client is gone nothing may be enqueued, including from a
+    // heartbeat that was still waiting on the record
+    let closed = false;
+    let cleanup = () => {};
+
+    const stream = new ReadableStream({
+      start(controller) {
+        let lastStatus = validation.status;
+        let lastProgress = validation.progress;
+
+        const enqueue = (chunk: string) => {
+          if (closed) return;
+          try {
+            controller.enqueue(encoder.encode(chunk));
+          } catch {
+            // The stream closed between the check and the write
+            closed = true;
+            cleanup();
+          }
+        };
+
+        const send = (event: string, data: unknown) => {
+          enqueue(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+        };
+
+        const close = () => {
+          if (closed) return;
+          closed = true;
+          cleanup();
+          try {
+            controller.close();
+          } catch {
+            // Already closed by the client
+          }
+        };
+
+        // Subscribe before sending the snapshot so no transition slips in between
+        const unsubscribe = subscribeToValidation(id, (event: ValidationEvent) => {
+          send(event.type, event);
+          if (event.type === 'step') lastProgress = event.progress;
+          if (event.type === 'status') {
+            lastStatus = event.status;
+            if (TERMINAL_STATUSES.includes(event.status)) close();
+          }
+        });
+
+        const heartbeat = setInterval(async () => {
+          if (closed) return;
+          enqueue(': ping\n\n');
+
+          const latest = await loadValidation(id).catch(() => null);
+          if (latest && (latest.status !== lastStatus || latest.progress !== lastProgress)) {
+            lastStatus = latest.status;
+            lastProgress = latest.progress;
+            send('snapshot', snapshotOf(latest));
+            if (TERMINAL_STATUSES.includes(latest.status)) close();
+          }
+        }, HEARTBEAT_INTERVAL_MS);
+
+        cleanup = () => {
+          unsubscribe();
+          clearInterval(heartbeat);
+        };
+        request.signal.addEventListener('abort', () => {
+          closed = true;
+          cleanup();
+        });
+
+        send('snapshot', snapshotOf(validation));
+        if (TERMINAL_STATUSES.includes(validation.status)) close();
+      },
+      cancel() {
+        closed = true;
+        cleanup();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no',
+      },
+    });
+
+  } catch (error) {
+    console.error('Progress stream error:', error);
+
+    if (error instanceof z.ZodError) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Invalid request parameters',
+        message: error.issues.map(e => `${e.path.join('.')}: ${e.message}`).join(', '),
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'Internal server error',
+      message: 'Failed to open validation progress stream',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
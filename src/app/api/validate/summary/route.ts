@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { generateValidationSummary } from '@/lib/ai/validation-summarizer';
+import { getPromptVersion } from '@/lib/ai/prompt-registry';
+import { loadCostBreakdown } from '@/lib/ai/token-usage';
+import { loadValidation, updateValidation } from '@/lib/storage/json';
 
 export async function POST(request: NextRequest) {
   try {
@@ -24,11 +27,23 @@ export async function POST(request: NextRequest) {
       moatData: body.moatData,
       uvzData: body.uvzData,
       realData: body.realData
-    });
+    }, body.validationId);
+
+    // The summary is generated after the pipeline finished, so refresh the stored cost
+    // and add its prompt to the versions the steps recorded
+    const promptVersion = getPromptVersion('validationSummary');
+    if (body.validationId) {
+      const validation = await loadValidation(body.validationId);
+      await updateValidation(body.validationId, {
+        costBreakdown: await loadCostBreakdown(body.validationId),
+        promptVersions: { ...validation?.promptVersions, validationSummary: promptVersion },
+      });
+    }
 
     return NextResponse.json({
       success: true,
-      summary
+      summary,
+      promptVersion
     });
 
   } catch (error) {
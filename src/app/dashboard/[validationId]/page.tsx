@@ -8,13 +8,10 @@ import { Badge } from '@/components/ui/badge';
 import { Loader2, Download, Share2, Target, XCircle } from 'lucide-react';
 import { ValidationScoreCard } from '@/components/dashboard/ValidationScoreCard';
 import { MarketDemandCard } from '@/components/dashboard/MarketDemandCard';
-import { CompetitionCard } from '@/components/dashboard/CompetitionCard';
-import { UVZCard } from '@/components/dashboard/UVZCard';
-import { MarketSizeCard } from '@/components/dashboard/MarketSizeCard';
-import { ScalabilityCard } from '@/components/dashboard/ScalabilityCard';
-import { MoatCard } from '@/components/dashboard/MoatCard';
+import { RESEARCH_CARDS } from '@/components/dashboard/research-cards';
 import { toast } from 'sonner';
 import { getGradeColor } from '@/lib/utils';
+import { ResearchModuleInfo } from '@/types/api';
 
 interface ValidationResults {
   validationId: string;
@@ -29,6 +26,8 @@ interface ValidationResults {
   scalabilityData?: any;
   moatData?: any;
   uvzData?: any;
+  researchModules?: ResearchModuleInfo[];
+  [resultKey: string]: any; // Outputs of registered research modules
 }
 
 export default function DashboardPage() {
@@ -60,30 +59,16 @@ export default function DashboardPage() {
         }
 
         // Map the API response to what dashboard components expect with safe defaults
-        const socialIntelligence = data.data.score?.evidenceReport?.socialIntelligence || {};
+        const validation = data.data.validation || {};
         const competitionAnalysis = data.data.score?.evidenceReport?.competitionAnalysis || {};
         const realData = data.data.score?.realData || {};
-        
-        // Extract AI research data from the pipeline results
-        const marketSizeData = data.data.marketSizeData;
-        const scalabilityData = data.data.scalabilityData;
-        const moatData = data.data.moatData;
-        const uvzData = data.data.uvzData;
+
+        // Validations saved before the raw Reddit insight was persisted only have the evidence report
+        const redditData = validation.redditData || legacyRedditData(data.data.score);
         
         setResults({
           ...data.data,
-          redditData: {
-            realData: {
-              totalMentions: realData?.redditMentions || 0,
-              frustratedUsers: realData?.frustratedUsers || 0,
-              topQuotes: socialIntelligence?.topQuotes || [],
-              overallSentiment: socialIntelligence?.sentimentBreakdown?.frustratedPercent || 0,
-              frustrationLevel: (socialIntelligence?.sentimentBreakdown?.frustratedPercent || 0) / 100
-            },
-            score: data.data.score?.marketDemand || 0,
-            discussionVolume: socialIntelligence?.postsFound || 0,
-            engagementLevel: socialIntelligence?.topQuotes?.reduce((sum: number, q: any) => sum + (q.upvotes || 0), 0) / Math.max(1, socialIntelligence?.topQuotes?.length || 1) || 0
-          },
+          redditData,
           competitorData: {
             competitors: data.data.competitorData?.competitors || [],
             directCompetitors: data.data.competitorData?.competitors?.length || 0,
@@ -92,18 +77,13 @@ export default function DashboardPage() {
             opportunities: data.data.competitorData?.opportunities || [],
             marketGaps: data.data.competitorData?.marketGaps || []
           },
-          aiAnalysis: data.data.insights?.aiAnalysis,
+          aiAnalysis: validation.aiAnalysis,
           realData: {
             redditMentions: realData?.redditMentions || 0,
             competitorsFound: data.data.competitorData?.competitors?.length || 0,
-            totalDataPoints: data.data.validation?.totalDataPoints || 0,
+            totalDataPoints: validation.totalDataPoints || 0,
             frustratedUsers: realData?.frustratedUsers || 0
-          },
-          // Add the new AI research data
-          marketSizeData,
-          scalabilityData,
-          moatData,
-          uvzData
+          }
         });
       } catch (err) {
         setError('Failed to load validation results');
@@ -132,6 +112,7 @@ export default function DashboardPage() {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
+          validationId,
           score: results.score,
           redditData: results.redditData,
           competitorData: results.competitorData,
@@ -194,7 +175,7 @@ export default function DashboardPage() {
     );
   }
 
-  const { score, insights, redditData, competitorData, aiAnalysis, realData, marketSizeData, scalabilityData, moatData, uvzData } = results;
+  const { score, redditData, aiAnalysis, realData, marketSizeData, scalabilityData, moatData, researchModules = [] } = results;
 
   return (
     <ValidationLayout>
@@ -221,28 +202,18 @@ export default function DashboardPage() {
             realData={realData}
           />
           
-          <CompetitionCard 
-            competitorData={competitorData} 
-            realData={realData}
-          />
-
-          {/* Strategic Cards */}
-          <UVZCard 
-            uvzData={uvzData}
-          />
-          
-          <MarketSizeCard 
-            marketSizeData={marketSizeData}
-          />
-          
-          <ScalabilityCard 
-            scalabilityData={scalabilityData}
-          />
-
-          {/* Implementation Cards */}
-          <MoatCard 
-            moatData={moatData}
-          />
+          {/* Research Module Cards - one per registered pipeline module */}
+          {researchModules.map(researchModule => {
+            const Card = RESEARCH_CARDS[researchModule.card];
+            if (!Card) return null;
+            return (
+              <Card 
+                key={researchModule.id}
+                data={results[researchModule.resultKey]}
+                realData={realData}
+              />
+            );
+          })}
 
           {/* AI Summary Card */}
           <div className="bg-white rounded-lg border-2 border-gray-200 p-4 sm:p-6 w-full">
@@ -362,4 +333,23 @@ export default function DashboardPage() {
       </div>
     </ValidationLayout>
   );
-}
\ No newline at end of file
+}
+
+// Rebuild Reddit data from evidence report fragments for records without a stored RedditInsight
+function legacyRedditData(score: any) {
+  const socialIntelligence = score?.evidenceReport?.socialIntelligence || {};
+  const realData = score?.realData || {};
+
+  return {
+    realData: {
+      totalMentions: realData?.redditMentions || 0,
+      frustratedUsers: realData?.frustratedUsers || 0,
+      topQuotes: socialIntelligence?.topQuotes || [],
+      overallSentiment: socialIntelligence?.sentimentBreakdown?.frustratedPercent || 0,
+      frustrationLevel: (socialIntelligence?.sentimentBreakdown?.frustratedPercent || 0) / 100
+    },
+    score: score?.marketDemand || 0,
+    discussionVolume: socialIntelligence?.postsFound || 0,
+    engagementLevel: socialIntelligence?.topQuotes?.reduce((sum: number, q: any) => sum + (q.upvotes || 0), 0) / Math.max(1, socialIntelligence?.topQuotes?.length || 1) || 0
+  };
+}
@@ -6,17 +6,28 @@ import { ValidationLayout } from '@/components/layouts/ValidationLayout';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
-import { Loader2, CheckCircle, XCircle, ArrowRight } from 'lucide-react';
+import { Loader2, CheckCircle, XCircle, ArrowRight, Ban, Circle } from 'lucide-react';
 import { toast } from 'sonner';
+import { ProcessingStep } from '@/types/validation';
 
 interface ValidationStatus {
   validationId: string;
-  status: 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED';
+  status: 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
   progress: number;
   currentStep: string;
   estimatedTimeRemaining?: number;
+  estimatedCompletionAt?: string;
   errorMessage?: string;
   completedAt?: string;
+  cancelledAt?: string;
+  processingSteps?: ProcessingStep[];
+}
+
+// Replace a step in the checklist with its latest state from the stream
+function upsertStep(steps: ProcessingStep[] = [], step: ProcessingStep): ProcessingStep[] {
+  const next = steps.filter(s => s.step !== step.step);
+  next.push(step);
+  return next.sort((a, b) => a.step - b.step);
 }
 
 export default function ProgressPage() {
@@ -29,6 +40,9 @@ export default function ProgressPage() {
   const [error, setError] = useState<string | null>(null);
   const [startTime, setStartTime] = useState<number>(Date.now());
   const [elapsedSeconds, setElapsedSeconds] = useState<number>(0);
+  const [resuming, setResuming] = useState(false);
+  const [cancelling, setCancelling] = useState(false);
+  const [connection, setConnection] = useState(0); // Bumped to reconnect live updates after a resume
 
   useEffect(() => {
     if (!validationId) {
@@ -37,13 +51,54 @@ export default function ProgressPage() {
     }
 
     // Set initial status immediately to show progress page
-    setStatus({
+    setStatus(prev => prev ?? {
       validationId,
       status: 'PENDING',
       progress: 0,
       currentStep: 'Starting validation...',
     });
 
+    let finished = false;
+    let interval: ReturnType<typeof setInterval> | undefined;
+    let source: EventSource | undefined;
+
+    const stopUpdates = () => {
+      source?.close();
+      if (interval) clearInterval(interval);
+    };
+
+    // Merge an update and react once the validation reaches a final state
+    const handleUpdate = (update: Partial<ValidationStatus>) => {
+      setStatus(prev => prev && { ...prev, ...update });
+      if (finished || !update.status) return;
+
+      // If completed, show success message and redirect after delay
+      if (update.status === 'COMPLETED') {
+        finished = true;
+        toast.success('Validation completed!', {
+          description: 'Your startup idea analysis is ready.',
+        });
+        
+        setTimeout(() => {
+          router.push(`/dashboard/${validationId}`);
+        }, 2000);
+      }
+
+      // If failed, show error message
+      if (update.status === 'FAILED') {
+        finished = true;
+        toast.error('Validation failed', {
+          description: update.errorMessage || 'An error occurred during analysis.',
+        });
+      }
+
+      if (update.status === 'CANCELLED') {
+        finished = true;
+      }
+
+      if (finished) stopUpdates();
+    };
+
     const fetchStatus = async () => {
       try {
         const response = await fetch(`/api/validate/status?id=${validationId}`);
@@ -54,25 +109,7 @@ export default function ProgressPage() {
           return;
         }
 
-        setStatus(data.data);
-
-        // If completed, show success message and redirect after delay
-        if (data.data.status === 'COMPLETED') {
-          toast.success('Validation completed!', {
-            description: 'Your startup idea analysis is ready.',
-          });
-          
-          setTimeout(() => {
-            router.push(`/dashboard/${validationId}`);
-          }, 2000);
-        }
-
-        // If failed, show error message
-        if (data.data.status === 'FAILED') {
-          toast.error('Validation failed', {
-            description: data.data.errorMessage || 'An error occurred during analysis.',
-          });
-        }
+        handleUpdate(data.data);
 
       } catch (err) {
         setError('Failed to connect to validation service');
@@ -80,18 +117,39 @@ export default function ProgressPage() {
       }
     };
 
-    // Fetch initial status immediately (but don't block page display)
-    fetchStatus();
-    
-    // Poll for updates every 3 seconds if still processing
-    const interval = setInterval(() => {
-      if (status?.status === 'PROCESSING' || status?.status === 'PENDING') {
-        fetchStatus();
-      }
-    }, 3000);
+    // Poll for updates every 3 seconds when live updates aren't available
+    const startPolling = () => {
+      if (interval || finished) return;
+      fetchStatus();
+      interval = setInterval(fetchStatus, 3000);
+    };
+
+    // Prefer the live progress stream; fall back to polling if it can't connect or drops
+    if (typeof EventSource !== 'undefined') {
+      source = new EventSource(`/api/validate/stream?id=${validationId}`);
+      source.addEventListener('snapshot', (event: MessageEvent) => {
+        handleUpdate(JSON.parse(event.data));
+      });
+      source.addEventListener('step', (event: MessageEvent) => {
+        const { step, progress, currentStep, estimatedCompletionAt } = JSON.parse(event.data);
+        setStatus(prev => prev && { ...prev, processingSteps: upsertStep(prev.processingSteps, step) });
+        handleUpdate({ progress, currentStep, estimatedCompletionAt });
+      });
+      source.addEventListener('status', (event: MessageEvent) => {
+        const update = JSON.parse(event.data);
+        delete update.type;
+        handleUpdate(update);
+      });
+      source.onerror = () => {
+        source?.close();
+        startPolling();
+      };
+    } else {
+      startPolling();
+    }
 
-    return () => clearInterval(interval);
-  }, [validationId, router, status?.status]);
+    return stopUpdates;
+  }, [validationId, router, connection]);
 
   // Timer effect to track elapsed time
   useEffect(() => {
@@ -105,6 +163,91 @@ export default function ProgressPage() {
     }
   }, [startTime, status?.status]);
 
+  // Resume a failed or cancelled validation from the first incomplete step
+  const handleResume = async () => {
+    if (!validationId) return;
+
+    setResuming(true);
+    try {
+      const response = await fetch('/api/validate/resume', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ validationId }),
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        toast.error('Failed to resume validation', {
+          description: data.message || 'Please try again.',
+        });
+        return;
+      }
+
+      toast.success('Validation resumed', {
+        description: `Continuing from step ${data.data.resumeFromStep}.`,
+      });
+      setStartTime(Date.now());
+      setElapsedSeconds(0);
+      setStatus(prev => prev && {
+        ...prev,
+        status: 'PENDING',
+        currentStep: `Queued to resume from step ${data.data.resumeFromStep}...`,
+        errorMessage: undefined,
+      });
+      setConnection(count => count + 1);
+    } catch (err) {
+      toast.error('Failed to resume validation');
+      console.error('Resume error:', err);
+    } finally {
+      setResuming(false);
+    }
+  };
+
+  // Stop an in-flight validation so it stops spending API quota
+  const handleCancel = async () => {
+    if (!validationId) return;
+
+    setCancelling(true);
+    try {
+      const response = await fetch('/api/validate/cancel', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ validationId }),
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        toast.error('Failed to cancel validation', {
+          description: data.message || 'Please try again.',
+        });
+        return;
+      }
+
+      toast.success('Validation cancelled');
+      setStatus(prev => prev && {
+        ...prev,
+        status: 'CANCELLED',
+        currentStep: 'Validation cancelled',
+      });
+    } catch (err) {
+      toast.error('Failed to cancel validation');
+      console.error('Cancel error:', err);
+    } finally {
+      setCancelling(false);
+    }
+  };
+
+  // Prefer the pipeline's projected finish time; polling responses also carry a precomputed estimate
+  const minutesRemaining = (current: ValidationStatus) => {
+    if (current.estimatedCompletionAt) {
+      return Math.max(1, Math.ceil((new Date(current.estimatedCompletionAt).getTime() - Date.now()) / 60000));
+    }
+    return current.estimatedTimeRemaining;
+  };
+
+  const stepDurationSeconds = (step: ProcessingStep) =>
+    Math.max(0, Math.round((new Date(step.finishedAt!).getTime() - new Date(step.startedAt!).getTime()) / 1000));
+
   // Format elapsed time for display
   const formatElapsedTime = (seconds: number) => {
     if (seconds < 60) {
@@ -162,6 +305,8 @@ export default function ProgressPage() {
                   <CheckCircle className="w-16 h-16 text-green-500 mx-auto mb-4" />
                 ) : status?.status === 'FAILED' ? (
                   <XCircle className="w-16 h-16 text-red-500 mx-auto mb-4" />
+                ) : status?.status === 'CANCELLED' ? (
+                  <Ban className="w-16 h-16 text-gray-400 mx-auto mb-4" />
                 ) : (
                   <Loader2 className="w-16 h-16 text-blue-500 mx-auto mb-4 animate-spin" />
                 )}
@@ -169,6 +314,7 @@ export default function ProgressPage() {
                 <h2 className="text-2xl font-bold text-gray-900 mb-2">
                   {status?.status === 'COMPLETED' && 'Analysis Complete!'}
                   {status?.status === 'FAILED' && 'Analysis Failed'}
+                  {status?.status === 'CANCELLED' && 'Analysis Cancelled'}
                   {(status?.status === 'PROCESSING' || status?.status === 'PENDING') && 'Analyzing Your Idea'}
                 </h2>
                 
@@ -191,9 +337,47 @@ export default function ProgressPage() {
                 {(status?.status === 'PROCESSING' || status?.status === 'PENDING') && (
                   <div className="text-center text-sm text-gray-600">
                     Validating for: <span className="font-mono font-medium text-blue-600">{formatElapsedTime(elapsedSeconds)}</span>
+                    {status.status === 'PROCESSING' && minutesRemaining(status) !== undefined && (
+                      <span> · about {minutesRemaining(status)} min remaining</span>
+                    )}
                   </div>
                 )}
 
+                {/* Step Checklist */}
+                {status?.processingSteps && status.processingSteps.length > 0 && (
+                  <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                    {status.processingSteps.map(step => (
+                      <li key={step.step} className="flex items-start gap-3 p-3">
+                        {step.status === 'completed' ? (
+                          <CheckCircle className="w-5 h-5 text-green-500 flex-shrink-0 mt-0.5" />
+                        ) : step.status === 'failed' ? (
+                          <XCircle className="w-5 h-5 text-red-500 flex-shrink-0 mt-0.5" />
+                        ) : step.status === 'processing' ? (
+                          <Loader2 className="w-5 h-5 text-blue-500 animate-spin flex-shrink-0 mt-0.5" />
+                        ) : (
+                          <Circle className="w-5 h-5 text-gray-300 flex-shrink-0 mt-0.5" />
+                        )}
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-center justify-between gap-2">
+                            <span className={`text-sm font-medium ${step.status === 'pending' ? 'text-gray-400' : 'text-gray-900'}`}>
+                              {step.title}
+                            </span>
+                            <span className="text-xs text-gray-500 font-mono">
+                              {step.dataFound !== undefined && step.status === 'completed' && `${step.dataFound} data points`}
+                              {step.startedAt && step.finishedAt && ` · ${formatElapsedTime(stepDurationSeconds(step))}`}
+                            </span>
+                          </div>
+                          {step.status === 'failed' && step.errorMessage ? (
+                            <p className="text-xs text-red-700 mt-1">{step.errorMessage}</p>
+                          ) : step.status !== 'pending' && (
+                            <p className="text-xs text-gray-600 mt-1">{step.description}</p>
+                          )}
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
                 {/* Error Message */}
                 {status?.status === 'FAILED' && status.errorMessage && (
                   <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
@@ -221,20 +405,44 @@ export default function ProgressPage() {
                   </div>
                 )}
 
-                {/* Retry for Failed */}
-                {status?.status === 'FAILED' && (
+                {/* Cancel while running */}
+                {(status?.status === 'PROCESSING' || status?.status === 'PENDING') && (
                   <div className="flex justify-center">
+                    <Button 
+                      onClick={handleCancel}
+                      disabled={cancelling}
+                      variant="outline"
+                      className="flex items-center gap-2 border-gray-300 hover:bg-gray-100"
+                    >
+                      {cancelling && <Loader2 className="w-4 h-4 animate-spin" />}
+                      Cancel Validation
+                    </Button>
+                  </div>
+                )}
+
+                {/* Retry for Failed or Cancelled */}
+                {(status?.status === 'FAILED' || status?.status === 'CANCELLED') && (
+                  <div className="flex flex-col sm:flex-row gap-3 justify-center">
+                    <Button 
+                      onClick={handleResume}
+                      disabled={resuming}
+                      className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700"
+                    >
+                      {resuming && <Loader2 className="w-4 h-4 animate-spin" />}
+                      Resume Validation
+                    </Button>
                     <Button 
                       onClick={() => router.push('/')}
-                      className="bg-blue-600 hover:bg-blue-700"
+                      variant="outline"
+                      className="border-gray-300 hover:bg-gray-100"
                     >
                       Start New Validation
                     </Button>
                   </div>
                 )}
 
-                {/* What's Happening */}
-                {(status?.status === 'PROCESSING' || status?.status === 'PENDING') && (
+                {/* What's Happening (until the first step reports in) */}
+                {(status?.status === 'PROCESSING' || status?.status === 'PENDING') && !status.processingSteps?.length && (
                   <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg">
                     <h3 className="font-medium text-blue-900 mb-2">What&apos;s happening:</h3>
                     <ul className="text-sm text-blue-800 space-y-1">
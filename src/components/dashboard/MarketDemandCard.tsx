@@ -2,6 +2,7 @@
 
 import { Badge } from '@/components/ui/badge';
 import { Users, MessageSquare, TrendingUp, AlertCircle } from 'lucide-react';
+import { EvidenceSourceSummary } from '@/types/validation';
 
 interface MarketDemandCardProps {
   redditData?: any;
@@ -31,6 +32,10 @@ export function MarketDemandCard({ redditData, realData }: MarketDemandCardProps
 
   const demandLevel = demandScore ? getDemandLevel(demandScore) : null;
 
+  // Quotes saved before there were several sources have no origin and all come from Reddit
+  const sourceLabel = (origin: string) =>
+    redditData.sources?.find((source: EvidenceSourceSummary) => source.id === origin)?.label || (origin === 'reddit' ? 'Reddit' : origin);
+
   return (
     <div className="bg-white rounded-lg border-2 border-gray-200 p-6 w-full">
       <div className="mb-6">
@@ -40,6 +45,9 @@ export function MarketDemandCard({ redditData, realData }: MarketDemandCardProps
         </div>
         <p className="text-sm text-gray-600">
           Found real social media discussions about this problem
+          {redditData.sources?.length > 1 && (
+            <> on {redditData.sources.filter((source: EvidenceSourceSummary) => source.itemsFound > 0).map((source: EvidenceSourceSummary) => source.label).join(', ')}</>
+          )}
         </p>
       </div>
 
@@ -66,24 +74,43 @@ export function MarketDemandCard({ redditData, realData }: MarketDemandCardProps
               What People Are Saying
             </h4>
             <div className="space-y-3 max-h-64 overflow-y-auto">
-              {topQuotes.slice(0, 4).map((quote: any, index: number) => (
-                <div key={index} className={`p-3 border rounded-lg ${sentimentColors[quote.sentiment as keyof typeof sentimentColors]}`}>
-                  <p className="text-sm font-medium mb-2">&quot;{quote.quote}&quot;</p>
-                  <div className="flex items-center justify-between text-xs">
-                    <div className="flex items-center gap-2">
-                      <span className="font-medium">u/{quote.author}</span>
-                      <span className="text-gray-500">•</span>
-                      <span>r/{quote.subreddit}</span>
-                    </div>
-                    {quote.upvotes && (
-                      <div className="flex items-center gap-1">
-                        <TrendingUp className="w-3 h-3" />
-                        {quote.upvotes}
+              {topQuotes.slice(0, 4).map((quote: any, index: number) => {
+                const origin = quote.origin || 'reddit';
+                return (
+                  <div key={index} className={`p-3 border rounded-lg ${sentimentColors[quote.sentiment as keyof typeof sentimentColors]}`}>
+                    <p className="text-sm font-medium mb-2">&quot;{quote.quote}&quot;</p>
+                    <div className="flex items-center justify-between text-xs">
+                      <div className="flex items-center gap-2">
+                        <Badge variant="outline" className="text-[10px] px-1.5 py-0">
+                          {sourceLabel(origin)}
+                        </Badge>
+                        <span className="font-medium">{origin === 'reddit' ? `u/${quote.author}` : quote.author}</span>
+                        <span className="text-gray-500">•</span>
+                        <span>{origin === 'reddit' ? `r/${quote.subreddit}` : quote.subreddit}</span>
+                        {quote.url && (
+                          <>
+                            <span className="text-gray-500">•</span>
+                            <a href={quote.url} target="_blank" rel="noopener noreferrer" className="underline hover:no-underline">
+                              source
+                            </a>
+                          </>
+                        )}
+                        {quote.verified === false && (
+                          <span className="text-gray-500" title="Paraphrased: not found word for word in the source post">
+                            (approximate)
+                          </span>
+                        )}
                       </div>
-                    )}
+                      {quote.upvotes && (
+                        <div className="flex items-center gap-1">
+                          <TrendingUp className="w-3 h-3" />
+                          {quote.upvotes}
+                        </div>
+                      )}
+                    </div>
                   </div>
-                </div>
-              ))}
+                );
+              })}
             </div>
           </div>
         )}
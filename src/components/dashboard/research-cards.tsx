@@ -0,0 +1,24 @@
+'use client';
+
+import { ComponentType } from 'react';
+import { CompetitionCard } from './CompetitionCard';
+import { UVZCard } from './UVZCard';
+import { MarketSizeCard } from './MarketSizeCard';
+import { ScalabilityCard } from './ScalabilityCard';
+import { MoatCard } from './MoatCard';
+import { MVPTimelineCard } from './MVPTimelineCard';
+
+export interface ResearchCardProps {
+  data?: any;
+  realData?: any;
+}
+
+// Dashboard cards by the card id research modules declare in research-registry.ts
+export const RESEARCH_CARDS: { [cardId: string]: ComponentType<ResearchCardProps> } = {
+  'competition': ({ data, realData }) => <CompetitionCard competitorData={data} realData={realData} />,
+  'uvz': ({ data }) => <UVZCard uvzData={data} />,
+  'market-size': ({ data }) => <MarketSizeCard marketSizeData={data} />,
+  'scalability': ({ data }) => <ScalabilityCard scalabilityData={data} />,
+  'moat': ({ data }) => <MoatCard moatData={data} />,
+  'mvp-timeline': ({ data }) => <MVPTimelineCard mvpTimelineData={data} />,
+};
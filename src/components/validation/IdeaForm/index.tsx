@@ -51,6 +51,7 @@ interface RefinedIdea {
   oneLiner: string;
   targetAudience: string;
   problem: string;
+  refinementId?: string;
 }
 
 export default function IdeaForm({ onSubmit, loading = false, disabled = false }: IdeaFormProps) {
@@ -135,7 +136,8 @@ export default function IdeaForm({ onSubmit, loading = false, disabled = false }
           oneLiner: refinedIdea!.oneLiner,
           targetAudience: refinedIdea!.targetAudience,
           problem: refinedIdea!.problem
-        }
+        },
+        refinementId: refinedIdea!.refinementId
       };
       onSubmit(submitData);
     } else {
@@ -0,0 +1,9 @@
+// Runs once when the Next.js server boots - start the background validation worker,
+// which also re-queues any jobs orphaned by the previous process. In cron mode (the
+// default on Vercel) this does nothing and /api/jobs/drain runs the queue instead.
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startValidationWorker } = await import('@/lib/jobs/validation-worker');
+    startValidationWorker();
+  }
+}
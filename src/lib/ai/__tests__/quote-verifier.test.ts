@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { MIN_MATCH_SCORE, QuoteSource, findQuoteSource, scoreQuoteMatch, verifyQuotes } from '../quote-verifier';
+
+const POST_BODY = 'I spend every Friday afternoon chasing clients who still haven\'t paid their invoices from last month.';
+
+const sources: QuoteSource[] = [
+  {
+    url: 'https://www.reddit.com/r/freelance/comments/abc123/',
+    title: 'How do you get clients to pay on time?',
+    content: POST_BODY,
+    origin: 'reddit',
+    comments: [
+      {
+        body: 'Late fees in the contract fixed it for me.',
+        permalink: 'https://www.reddit.com/r/freelance/comments/abc123/_/c1/',
+        replies: [
+          {
+            body: 'Same here, a two percent monthly fee gets invoices paid within a week.',
+            permalink: 'https://www.reddit.com/r/freelance/comments/abc123/_/c2/',
+          },
+        ],
+      },
+    ],
+  },
+];
+
+describe('scoreQuoteMatch', () => {
+  it('scores an exact quote as a full match', () => {
+    expect(scoreQuoteMatch('chasing clients who still haven\'t paid', POST_BODY)).toBe(1);
+  });
+
+  it('ignores punctuation, case and curly apostrophes', () => {
+    expect(scoreQuoteMatch('Chasing clients, who STILL haven’t paid!', POST_BODY)).toBe(1);
+  });
+
+  it('scores a close paraphrase by the share of its words found together', () => {
+    const score = scoreQuoteMatch('I spend my Friday chasing customers who never paid their bills', POST_BODY);
+
+    expect(score).toBeCloseTo(7 / 11);
+    expect(score).toBeGreaterThanOrEqual(MIN_MATCH_SCORE);
+  });
+
+  it('scores a loose paraphrase below the threshold', () => {
+    expect(scoreQuoteMatch('I waste weekends begging customers for overdue payments', POST_BODY)).toBeLessThan(MIN_MATCH_SCORE);
+  });
+
+  it('only accepts short quotes when they appear exactly', () => {
+    expect(scoreQuoteMatch('invoices from last', POST_BODY)).toBe(1);
+    expect(scoreQuoteMatch('invoices from June', POST_BODY)).toBe(0);
+  });
+
+  it('scores an empty quote as no match', () => {
+    expect(scoreQuoteMatch('', POST_BODY)).toBe(0);
+    expect(scoreQuoteMatch(' ... ', POST_BODY)).toBe(0);
+  });
+
+  it('scores a quote longer than its source by the words the source covers', () => {
+    const score = scoreQuoteMatch('My clients still haven\'t paid me for the work I finished in March', 'still haven\'t paid');
+
+    expect(score).toBeCloseTo(3 / 13);
+  });
+});
+
+describe('findQuoteSource', () => {
+  it('attributes a quote found in a reply to that reply', () => {
+    expect(findQuoteSource('a two percent monthly fee gets invoices paid', sources)).toEqual({
+      url: 'https://www.reddit.com/r/freelance/comments/abc123/_/c2/',
+      origin: 'reddit',
+      matchScore: 1,
+      matchedIn: 'comment',
+    });
+  });
+
+  it('finds nothing for an empty quote', () => {
+    expect(findQuoteSource('', sources)).toBeNull();
+  });
+});
+
+describe('verifyQuotes', () => {
+  it('keeps matched quotes with their score and drops the rest', () => {
+    const quotes = [
+      { quote: 'Chasing clients who still haven\'t paid their invoices', url: 'https://made-up.example/1', upvotes: 12 },
+      { quote: 'I spend my Friday chasing customers who never paid their bills', url: 'https://made-up.example/2', upvotes: 4 },
+      { quote: 'I waste weekends begging customers for overdue payments', url: 'https://made-up.example/3', upvotes: 9 },
+    ];
+
+    const { kept, dropped } = verifyQuotes(quotes, sources);
+
+    expect(kept).toEqual([
+      { ...quotes[0], url: sources[0].url, origin: 'reddit', matchScore: 1, verified: true },
+      { ...quotes[1], url: sources[0].url, origin: 'reddit', matchScore: 0.64, verified: false },
+    ]);
+    expect(dropped).toEqual([quotes[2]]);
+  });
+});
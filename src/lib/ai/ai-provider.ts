@@ -1,5 +1,8 @@
 import { AIAnalysis } from '@/types/validation';
-import { analyzeStartupIdea as analyzeWithGemini, extractKeywordsAI } from './gemini';
+import { analyzeStartupIdea as analyzeWithAI, extractKeywordsAI } from './gemini';
+import { AIProvider, getLLMClient, PROVIDER_NAMES } from './llm-client';
+
+export { AIProvider };
 
 export interface AnalysisData {
   idea: string;
@@ -10,64 +13,64 @@ export interface AnalysisData {
   youtubeData?: any;
 }
 
-export enum AIProvider {
-  GEMINI = 'gemini'
-}
-
-// Gemini AI analysis system
+// AI analysis system; the provider comes from LLM_* configuration unless one is passed
 export async function analyzeStartupWithBestAI(
   data: AnalysisData,
-  preferredProvider: AIProvider = AIProvider.GEMINI
+  options: { preferredProvider?: AIProvider; validationId?: string } = {}
 ): Promise<{
   analysis: AIAnalysis;
   provider: string;
   model: string;
 }> {
-  console.log('🤖 Starting Gemini AI analysis...');
+  const llm = getLLMClient('aiAnalysis', {
+    ...(options.preferredProvider && { provider: options.preferredProvider }),
+    validationId: options.validationId,
+    prompt: 'startupAnalysis'
+  });
+  const providerName = PROVIDER_NAMES[llm.provider];
+  console.log(`🤖 Starting ${providerName} AI analysis...`);
 
   try {
-    console.log('🔄 Using Gemini for startup analysis...');
+    const analysis = await analyzeWithAI(data, llm);
     
-    const analysis = await analyzeWithGemini(data);
-    
-    console.log('✅ Analysis successful with Gemini');
+    console.log(`✅ Analysis successful with ${providerName}`);
     return {
       analysis,
-      provider: 'Google Gemini',
-      model: 'gemini-2.0-flash-exp'
+      provider: providerName,
+      model: llm.model
     };
 
   } catch (error) {
-    console.error('❌ Gemini analysis failed:', error instanceof Error ? error.message : error);
+    console.error(`❌ ${providerName} analysis failed:`, error instanceof Error ? error.message : error);
     throw error; // Re-throw error instead of fallback
   }
 }
 
-// Gemini keyword extraction
+// AI keyword extraction
 export async function extractKeywordsWithBestAI(
   text: string,
-  preferredProvider: AIProvider = AIProvider.GEMINI
+  preferredProvider?: AIProvider
 ): Promise<{
   keywords: string[];
   provider: string;
 }> {
-  console.log('🔍 Starting Gemini keyword extraction...');
+  const llm = getLLMClient('keywords', preferredProvider ? { provider: preferredProvider } : {});
+  const providerName = PROVIDER_NAMES[llm.provider];
+  console.log(`🔍 Starting ${providerName} keyword extraction...`);
 
   try {
-    console.log('🔄 Using Gemini for keyword extraction...');
-    
-    const keywords = await extractKeywordsAI(text);
+    const keywords = await extractKeywordsAI(text, llm);
     
     if (keywords && keywords.length > 0) {
-      console.log('✅ Keywords extracted with Gemini:', keywords.join(', '));
+      console.log(`✅ Keywords extracted with ${providerName}:`, keywords.join(', '));
       return {
         keywords,
-        provider: 'Google Gemini'
+        provider: providerName
       };
     }
 
   } catch (error) {
-    console.error('❌ Gemini keyword extraction failed:', error);
+    console.error(`❌ ${providerName} keyword extraction failed:`, error);
     throw error; // Don't fallback, just crash
   }
 }
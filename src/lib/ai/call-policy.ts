@@ -0,0 +1,215 @@
+import { saveDebugLog } from '@/lib/storage/debug-storage';
+import { LLMClient, LLMTask } from './llm-client';
+
+// Every model call goes through the same retry and rate-limit policy:
+//   LLM_MAX_RETRIES          - retries after a 429, 5xx or network failure (default 4)
+//   LLM_RETRY_BASE_MS        - first backoff delay, doubled per retry with full jitter (default 1000)
+//   LLM_RETRY_MAX_DELAY_MS   - longest single wait, including retry-after hints (default 60000)
+//   LLM_CIRCUIT_THRESHOLD    - consecutive failures that open a provider's circuit (default 5)
+//   LLM_CIRCUIT_COOLDOWN_MS  - how long an open circuit rejects calls before a probe (default 60000)
+//   LLM_MAX_CONCURRENCY      - model calls in flight across the process (default 4)
+interface CallPolicySettings {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  circuitThreshold: number;
+  circuitCooldownMs: number;
+  maxConcurrency: number;
+}
+
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+const RETRYABLE_CODES = new Set(['ECONNRESET', 'ECONNREFUSED', 'ECONNABORTED', 'ETIMEDOUT', 'EAI_AGAIN']);
+
+// Failed request to a model provider, with what the response said about retrying
+export class LLMRequestError extends Error {
+  constructor(
+    message: string,
+    public readonly status?: number,
+    public readonly retryAfterMs?: number,
+    public readonly code?: string
+  ) {
+    super(message);
+    this.name = 'LLMRequestError';
+  }
+}
+
+// Thrown without calling the provider while its circuit is open
+export class CircuitOpenError extends Error {
+  constructor(provider: string, public readonly retryAfterMs: number) {
+    super(`${provider} is temporarily unavailable after repeated failures; retry in ${Math.ceil(retryAfterMs / 1000)}s`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+interface CircuitState {
+  consecutiveFailures: number;
+  openedAt: number | null;
+  probing: boolean;        // One call is testing whether the provider recovered
+}
+
+// Shared by every client in the process, kept on globalThis so dev-mode hot reloads share it
+const globalForPolicy = globalThis as unknown as {
+  llmCallPolicy?: { active: number; waiting: Array<() => void>; circuits: Map<string, CircuitState> };
+};
+
+function getPolicyState() {
+  if (!globalForPolicy.llmCallPolicy) {
+    globalForPolicy.llmCallPolicy = { active: 0, waiting: [], circuits: new Map() };
+  }
+  return globalForPolicy.llmCallPolicy;
+}
+
+function readSetting(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+function getSettings(): CallPolicySettings {
+  return {
+    maxRetries: readSetting('LLM_MAX_RETRIES', 4),
+    baseDelayMs: readSetting('LLM_RETRY_BASE_MS', 1000),
+    maxDelayMs: readSetting('LLM_RETRY_MAX_DELAY_MS', 60000),
+    circuitThreshold: Math.max(1, readSetting('LLM_CIRCUIT_THRESHOLD', 5)),
+    circuitCooldownMs: readSetting('LLM_CIRCUIT_COOLDOWN_MS', 60000),
+    maxConcurrency: Math.max(1, readSetting('LLM_MAX_CONCURRENCY', 4)),
+  };
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+export function parseRetryAfter(value: unknown): number | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+export function isRetryableError(error: unknown): error is LLMRequestError {
+  if (!(error instanceof LLMRequestError)) return false;
+  return (error.status !== undefined && RETRYABLE_STATUSES.has(error.status))
+    || (error.code !== undefined && RETRYABLE_CODES.has(error.code));
+}
+
+// Full jitter: a random wait up to the exponential ceiling, so parallel steps don't retry in lockstep
+function backoffDelay(retry: number, settings: CallPolicySettings): number {
+  const ceiling = Math.min(settings.maxDelayMs, settings.baseDelayMs * 2 ** (retry - 1));
+  return Math.round(Math.random() * ceiling);
+}
+
+// Milliseconds until the provider may be called again, or 0 when the call can go ahead
+function checkCircuit(provider: string, settings: CallPolicySettings): number {
+  const circuit = getPolicyState().circuits.get(provider);
+  if (!circuit || circuit.openedAt === null) return 0;
+
+  const remaining = circuit.openedAt + settings.circuitCooldownMs - Date.now();
+  if (remaining > 0) return remaining;
+  if (circuit.probing) return settings.circuitCooldownMs;
+
+  circuit.probing = true;
+  console.log(`🔌 ${provider}: circuit half-open, probing with one call`);
+  return 0;
+}
+
+function recordSuccess(provider: string): void {
+  const circuit = getPolicyState().circuits.get(provider);
+  if (circuit && (circuit.consecutiveFailures > 0 || circuit.openedAt !== null)) {
+    if (circuit.openedAt !== null) console.log(`🔌 ${provider}: circuit closed`);
+    circuit.consecutiveFailures = 0;
+    circuit.openedAt = null;
+    circuit.probing = false;
+  }
+}
+
+function recordFailure(provider: string, settings: CallPolicySettings): void {
+  const circuits = getPolicyState().circuits;
+  const circuit = circuits.get(provider) || { consecutiveFailures: 0, openedAt: null, probing: false };
+  circuit.consecutiveFailures += 1;
+
+  if (circuit.probing || (circuit.openedAt === null && circuit.consecutiveFailures >= settings.circuitThreshold)) {
+    console.warn(`🔌 ${provider}: circuit open after ${circuit.consecutiveFailures} consecutive failures`);
+    circuit.openedAt = Date.now();
+    circuit.probing = false;
+  }
+  circuits.set(provider, circuit);
+}
+
+// Holds a process-wide slot for the duration of one provider request
+async function withConcurrencySlot<T>(call: () => Promise<T>, maxConcurrency: number): Promise<T> {
+  const state = getPolicyState();
+  while (state.active >= maxConcurrency) {
+    await new Promise<void>(resolve => state.waiting.push(resolve));
+  }
+
+  state.active += 1;
+  try {
+    return await call();
+  } finally {
+    state.active -= 1;
+    state.waiting.shift()?.();
+  }
+}
+
+async function logCallEvent(validationId: string | undefined, step: string, data: Record<string, unknown>, error: string): Promise<void> {
+  if (validationId) {
+    await saveDebugLog(validationId, step, data, false, error);
+  }
+}
+
+async function callWithPolicy<T>(llm: LLMClient, task: LLMTask, validationId: string | undefined, call: () => Promise<T>): Promise<T> {
+  const settings = getSettings();
+
+  for (let attempt = 1; ; attempt++) {
+    const circuitWaitMs = checkCircuit(llm.provider, settings);
+    if (circuitWaitMs > 0) {
+      const error = new CircuitOpenError(llm.provider, circuitWaitMs);
+      console.warn(`🛑 ${task}: giving up, ${error.message}`);
+      await logCallEvent(validationId, `ai-giveup-${task}`, { provider: llm.provider, model: llm.model, attempt, reason: 'circuit open' }, error.message);
+      throw error;
+    }
+
+    try {
+      const result = await withConcurrencySlot(call, settings.maxConcurrency);
+      recordSuccess(llm.provider);
+      return result;
+    } catch (error) {
+      if (!isRetryableError(error)) {
+        // The provider answered, so a bad request still counts as it being up
+        recordSuccess(llm.provider);
+        throw error;
+      }
+      recordFailure(llm.provider, settings);
+
+      const delayMs = error.retryAfterMs ?? backoffDelay(attempt, settings);
+      const details = {
+        provider: llm.provider,
+        model: llm.model,
+        attempt,
+        status: error.status,
+        code: error.code,
+        retryAfterMs: error.retryAfterMs,
+      };
+
+      const giveUpReason = attempt > settings.maxRetries
+        ? 'retries exhausted'
+        : delayMs > settings.maxDelayMs ? `retry-after of ${delayMs}ms exceeds the ${settings.maxDelayMs}ms limit` : null;
+      if (giveUpReason) {
+        console.warn(`🛑 ${task}: giving up after ${attempt} attempts (${giveUpReason}): ${error.message}`);
+        await logCallEvent(validationId, `ai-giveup-${task}`, { ...details, reason: giveUpReason }, error.message);
+        throw error;
+      }
+
+      console.log(`⏳ ${task}: ${error.message}; retrying (${attempt}/${settings.maxRetries}) in ${delayMs}ms`);
+      await logCallEvent(validationId, `ai-retry-${task}`, { ...details, delayMs }, error.message);
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+    }
+  }
+}
+
+// Wraps a client so each generate call is rate-limited, retried with backoff and guarded by
+// the provider's circuit breaker
+export function withCallPolicy(llm: LLMClient, task: LLMTask, validationId?: string): LLMClient {
+  return {
+    ...llm,
+    generate: (prompt, options) => callWithPolicy(llm, task, validationId, () => llm.generate(prompt, options)),
+  };
+}
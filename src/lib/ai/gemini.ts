@@ -1,7 +1,6 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import { AIAnalysis, Risk } from '@/types/validation';
-
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || '');
+import { getLLMClient, LLMClient } from './llm-client';
+import { renderPrompt } from './prompt-registry';
 
 interface AnalysisData {
   idea: string;
@@ -12,70 +11,17 @@ interface AnalysisData {
   youtubeData?: any;
 }
 
-export async function analyzeStartupIdea(data: AnalysisData): Promise<AIAnalysis> {
-  const model = genAI.getGenerativeModel({ model: 'gemini-2.0-flash-exp' });
-
-  const prompt = `
-You are an expert startup advisor and market researcher. Analyze this startup idea and provide detailed insights.
-
-STARTUP IDEA:
-"${data.idea}"
-
-INDUSTRY: ${data.industry}
-TARGET MARKET: ${data.targetMarket}
-
-${data.redditInsights ? `REDDIT INSIGHTS: ${JSON.stringify(data.redditInsights, null, 2)}` : ''}
-${data.trendsData ? `TRENDS DATA: ${JSON.stringify(data.trendsData, null, 2)}` : ''}
-${data.youtubeData ? `YOUTUBE DATA: ${JSON.stringify(data.youtubeData, null, 2)}` : ''}
-
-Please provide a comprehensive analysis in the following JSON format:
+export async function analyzeStartupIdea(data: AnalysisData, llm?: LLMClient): Promise<AIAnalysis> {
 
-{
-  "recommendation": "BUILD" | "PIVOT" | "PASS",
-  "reasoning": "Detailed explanation of why you made this recommendation",
-  "confidence": 75, // 0-100 confidence score
-  "risks": [
-    {
-      "type": "MARKET" | "TECHNICAL" | "COMPETITIVE" | "REGULATORY",
-      "level": "LOW" | "MEDIUM" | "HIGH",
-      "description": "Description of the risk",
-      "mitigation": "How to address this risk"
-    }
-  ],
-  "opportunities": [
-    "List of market opportunities and advantages"
-  ],
-  "nextSteps": [
-    "Specific actionable next steps for the entrepreneur"
-  ],
-  "marketSize": {
-    "tam": 1000000000, // Total Addressable Market in USD
-    "sam": 100000000,  // Serviceable Addressable Market in USD  
-    "som": 10000000    // Serviceable Obtainable Market in USD
-  }
-}
-
-Guidelines:
-- Be honest and data-driven in your assessment
-- Consider market demand, competition, trends, and feasibility
-- Provide specific, actionable advice
-- Include realistic market size estimates
-- Identify the most critical risks and opportunities
-- Consider the target market and industry context
-- If data is limited, acknowledge it but still provide best judgment
-
-Return only the JSON response, no additional text.
-`;
+  const prompt = renderPrompt('startupAnalysis', data);
 
   try {
-    console.log('🤖 Starting Gemini analysis...');
-    console.log('🔑 API Key available:', !!process.env.GEMINI_API_KEY);
+    const client = llm || getLLMClient('aiAnalysis');
+    console.log(`🤖 Starting ${client.provider} analysis (${client.model})...`);
     
-    const result = await model.generateContent(prompt);
-    const response = result.response;
-    const text = response.text();
+    const { text } = await client.generate(prompt);
     
-    console.log('✅ Gemini API response received');
+    console.log('✅ AI response received');
     console.log('📝 Raw response (first 200 chars):', text.substring(0, 200));
     
     // Clean and parse JSON response with robust handling
@@ -168,7 +114,7 @@ Return only the JSON response, no additional text.
       confidence: Math.min(Math.max(analysis.confidence || 50, 0), 100),
     };
   } catch (error) {
-    console.error('❌ Gemini AI analysis error:', error);
+    console.error('❌ AI analysis error:', error);
     
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     
@@ -183,7 +129,7 @@ Return only the JSON response, no additional text.
     }
     
     // NO FALLBACK DATA - throw error so validation fails properly
-    throw new Error(`Gemini AI analysis failed: ${errorMessage}`);
+    throw new Error(`AI analysis failed: ${errorMessage}`);
   }
 }
 
@@ -223,8 +169,7 @@ function extractJsonArray(text: string, field: string): string[] {
 }
 
 // Quick sentiment analysis for text
-export async function analyzeSentiment(text: string): Promise<number> {
-  const model = genAI.getGenerativeModel({ model: 'gemini-2.0-flash-exp' });
+export async function analyzeSentiment(text: string, llm?: LLMClient): Promise<number> {
 
   const prompt = `
 Analyze the sentiment of this text and return a score from 0 to 10:
@@ -240,8 +185,8 @@ Return only a number between 0 and 10, no explanation needed.
 `;
 
   try {
-    const result = await model.generateContent(prompt);
-    const response = result.response.text().trim();
+    const { text: aiText } = await (llm || getLLMClient('sentiment')).generate(prompt);
+    const response = aiText.trim();
     const score = parseFloat(response);
     
     return isNaN(score) ? 5 : Math.min(Math.max(score, 0), 10);
@@ -252,8 +197,7 @@ Return only a number between 0 and 10, no explanation needed.
 }
 
 // Extract keywords from text using AI
-export async function extractKeywordsAI(text: string): Promise<string[]> {
-  const model = genAI.getGenerativeModel({ model: 'gemini-2.0-flash-exp' });
+export async function extractKeywordsAI(text: string, llm?: LLMClient): Promise<string[]> {
 
   const prompt = `
 Extract the most important keywords from this startup idea description. 
@@ -265,8 +209,8 @@ Return only a JSON array of strings, like: ["keyword1", "keyword2", "keyword3"]
 `;
 
   try {
-    const result = await model.generateContent(prompt);
-    const response = result.response.text().trim();
+    const { text: aiText } = await (llm || getLLMClient('keywords')).generate(prompt);
+    const response = aiText.trim();
     const keywords = JSON.parse(response);
     
     return Array.isArray(keywords) ? keywords.slice(0, 10) : [];
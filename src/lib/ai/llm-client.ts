@@ -0,0 +1,330 @@
+import axios from 'axios';
+import { GoogleGenerativeAI, GoogleGenerativeAIFetchError } from '@google/generative-ai';
+import { recordTokenUsage } from './token-usage';
+import { generateWithCache, isResponseCacheEnabled } from './response-cache';
+import { LLMRequestError, parseRetryAfter, withCallPolicy } from './call-policy';
+import { PromptId } from './prompt-registry';
+
+// Every AI call site names its task so provider and model can be chosen per step:
+//   LLM_PROVIDER / LLM_MODEL                     - defaults for all tasks
+//   LLM_<TASK>_PROVIDER / LLM_<TASK>_MODEL       - per-task overrides, e.g. LLM_MARKET_SIZE_MODEL
+export type LLMTask =
+  | 'refineIdea'
+  | 'keywords'
+  | 'redditAnalysis'
+  | 'competitors'
+  | 'marketSize'
+  | 'scalability'
+  | 'moat'
+  | 'uvz'
+  | 'mvpTimeline'
+  | 'aiAnalysis'
+  | 'sentiment'
+  | 'summary'
+  | 'test';
+
+export enum AIProvider {
+  GEMINI = 'gemini',
+  OPENAI = 'openai',       // Any OpenAI-compatible chat completions endpoint
+  OLLAMA = 'ollama',
+  LLAMACPP = 'llamacpp'    // llama.cpp server, OpenAI-compatible API without a key
+}
+
+export interface LLMConfig {
+  provider: AIProvider;
+  model: string;
+  baseUrl?: string;
+  apiKey?: string;
+  timeoutMs: number;
+}
+
+export interface LLMGenerateOptions {
+  temperature?: number;
+  maxOutputTokens?: number;
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  estimated?: boolean;     // Provider reported no usage, counted from text length
+}
+
+export interface LLMResponse {
+  text: string;
+  provider: AIProvider;
+  model: string;
+  usage: LLMUsage;
+  cached?: boolean;        // Served from the response cache without calling the model
+  cacheKey?: string;       // Set when the response passed through the cache
+}
+
+export interface LLMClientOptions extends Partial<LLMConfig> {
+  validationId?: string;   // Token usage is recorded against this validation
+  prompt?: PromptId;       // Registered prompt being sent; makes responses cacheable
+}
+
+export interface LLMClient {
+  provider: AIProvider;
+  model: string;
+  generate(prompt: string, options?: LLMGenerateOptions): Promise<LLMResponse>;
+}
+
+export const PROVIDER_NAMES: { [provider in AIProvider]: string } = {
+  [AIProvider.GEMINI]: 'Google Gemini',
+  [AIProvider.OPENAI]: 'OpenAI-compatible',
+  [AIProvider.OLLAMA]: 'Ollama',
+  [AIProvider.LLAMACPP]: 'llama.cpp',
+};
+
+const DEFAULT_MODELS: { [provider in AIProvider]: string } = {
+  [AIProvider.GEMINI]: 'gemini-2.0-flash-exp',
+  [AIProvider.OPENAI]: 'gpt-4o-mini',
+  [AIProvider.OLLAMA]: 'llama3.1',
+  [AIProvider.LLAMACPP]: 'default',
+};
+
+const DEFAULT_BASE_URLS: { [provider in AIProvider]?: string } = {
+  [AIProvider.OPENAI]: 'https://api.openai.com/v1',
+  [AIProvider.OLLAMA]: 'http://localhost:11434',
+  [AIProvider.LLAMACPP]: 'http://localhost:8080/v1',
+};
+
+// Local models on modest hardware can take minutes for the long research prompts
+const DEFAULT_TIMEOUT_MS = 180000;
+
+// marketSize -> MARKET_SIZE
+function envPrefix(task: LLMTask): string {
+  return `LLM_${task.replace(/([a-z])([A-Z])/g, '$1_$2').toUpperCase()}`;
+}
+
+function parseProvider(value: string | undefined): AIProvider | undefined {
+  if (!value) return undefined;
+  const provider = Object.values(AIProvider).find(p => p === value.trim().toLowerCase());
+  if (!provider) {
+    throw new Error(`Unknown LLM provider "${value}" (expected one of: ${Object.values(AIProvider).join(', ')})`);
+  }
+  return provider;
+}
+
+export function resolveLLMConfig(task: LLMTask, overrides: Partial<LLMConfig> = {}): LLMConfig {
+  const prefix = envPrefix(task);
+  const taskProvider = parseProvider(process.env[`${prefix}_PROVIDER`]);
+  const defaultProvider = parseProvider(process.env.LLM_PROVIDER) || AIProvider.GEMINI;
+  const provider = overrides.provider || taskProvider || defaultProvider;
+
+  // LLM_MODEL belongs to LLM_PROVIDER, so it does not follow a task onto another provider
+  const model = overrides.model
+    || process.env[`${prefix}_MODEL`]
+    || (provider === defaultProvider ? process.env.LLM_MODEL : undefined)
+    || DEFAULT_MODELS[provider];
+
+  const providerEnv: { [p in AIProvider]: { baseUrl?: string; apiKey?: string } } = {
+    [AIProvider.GEMINI]: { apiKey: process.env.GEMINI_API_KEY },
+    [AIProvider.OPENAI]: { baseUrl: process.env.OPENAI_BASE_URL, apiKey: process.env.OPENAI_API_KEY },
+    [AIProvider.OLLAMA]: { baseUrl: process.env.OLLAMA_BASE_URL },
+    [AIProvider.LLAMACPP]: { baseUrl: process.env.LLAMACPP_BASE_URL, apiKey: process.env.LLAMACPP_API_KEY },
+  };
+
+  return {
+    provider,
+    model,
+    baseUrl: (overrides.baseUrl || providerEnv[provider].baseUrl || DEFAULT_BASE_URLS[provider])?.replace(/\/+$/, ''),
+    apiKey: overrides.apiKey || providerEnv[provider].apiKey,
+    timeoutMs: overrides.timeoutMs || parseInt(process.env.LLM_TIMEOUT_MS || '', 10) || DEFAULT_TIMEOUT_MS,
+  };
+}
+
+// Rough count for providers that don't report usage, about four characters per token
+function estimateUsage(prompt: string, text: string): LLMUsage {
+  return { promptTokens: Math.ceil(prompt.length / 4), completionTokens: Math.ceil(text.length / 4), estimated: true };
+}
+
+function describeHttpError(config: LLMConfig, error: unknown): Error {
+  if (axios.isAxiosError(error)) {
+    const status = error.response?.status;
+    const detail = error.response?.data?.error?.message || error.response?.data?.error || error.message;
+    return new LLMRequestError(
+      `${PROVIDER_NAMES[config.provider]} request failed${status ? ` (${status})` : ''}: ${typeof detail === 'string' ? detail : JSON.stringify(detail)}`,
+      status,
+      parseRetryAfter(error.response?.headers?.['retry-after']),
+      error.code
+    );
+  }
+  return error instanceof Error ? error : new Error(String(error));
+}
+
+// The Gemini SDK reports rate limits as a RetryInfo detail with a delay such as "30s"
+function describeGeminiError(error: unknown): Error {
+  if (error instanceof GoogleGenerativeAIFetchError) {
+    const retryInfo = error.errorDetails?.find(detail => detail['@type']?.endsWith('RetryInfo'));
+    const retryDelay = typeof retryInfo?.retryDelay === 'string' ? parseFloat(retryInfo.retryDelay) : NaN;
+    return new LLMRequestError(error.message, error.status, Number.isFinite(retryDelay) ? retryDelay * 1000 : undefined);
+  }
+  // Network failures surface as a TypeError from fetch with the system error as its cause
+  const code = (error as { cause?: { code?: unknown } })?.cause?.code;
+  if (error instanceof Error && typeof code === 'string') {
+    return new LLMRequestError(`Google Gemini request failed: ${error.message}`, undefined, undefined, code);
+  }
+  return error instanceof Error ? error : new Error(String(error));
+}
+
+function createGeminiClient(config: LLMConfig): LLMClient {
+  if (!config.apiKey) {
+    throw new Error('GEMINI_API_KEY not configured');
+  }
+  const genAI = new GoogleGenerativeAI(config.apiKey);
+
+  return {
+    provider: config.provider,
+    model: config.model,
+    async generate(prompt, options = {}) {
+      const model = genAI.getGenerativeModel({
+        model: config.model,
+        generationConfig: {
+          ...(options.temperature !== undefined && { temperature: options.temperature }),
+          ...(options.maxOutputTokens !== undefined && { maxOutputTokens: options.maxOutputTokens }),
+        },
+      }, { timeout: config.timeoutMs });
+      let result;
+      try {
+        result = await model.generateContent(prompt);
+      } catch (error) {
+        throw describeGeminiError(error);
+      }
+      const text = result.response.text();
+      const usage = result.response.usageMetadata;
+      return {
+        text,
+        provider: config.provider,
+        model: config.model,
+        usage: usage
+          ? { promptTokens: usage.promptTokenCount, completionTokens: usage.candidatesTokenCount ?? 0 }
+          : estimateUsage(prompt, text),
+      };
+    },
+  };
+}
+
+// OpenAI chat completions; llama.cpp's server exposes the same API under /v1
+function createOpenAICompatibleClient(config: LLMConfig): LLMClient {
+  if (config.provider === AIProvider.OPENAI && !config.apiKey) {
+    throw new Error('OPENAI_API_KEY not configured');
+  }
+
+  return {
+    provider: config.provider,
+    model: config.model,
+    async generate(prompt, options = {}) {
+      try {
+        const response = await axios.post(`${config.baseUrl}/chat/completions`, {
+          model: config.model,
+          messages: [{ role: 'user', content: prompt }],
+          ...(options.temperature !== undefined && { temperature: options.temperature }),
+          ...(options.maxOutputTokens !== undefined && { max_tokens: options.maxOutputTokens }),
+        }, {
+          headers: config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {},
+          timeout: config.timeoutMs,
+        });
+
+        const text = response.data?.choices?.[0]?.message?.content;
+        if (typeof text !== 'string') {
+          throw new Error(`${PROVIDER_NAMES[config.provider]} response contained no message content`);
+        }
+        const usage = response.data.usage;
+        return {
+          text,
+          provider: config.provider,
+          model: response.data.model || config.model,
+          usage: usage
+            ? { promptTokens: usage.prompt_tokens ?? 0, completionTokens: usage.completion_tokens ?? 0 }
+            : estimateUsage(prompt, text),
+        };
+      } catch (error) {
+        throw describeHttpError(config, error);
+      }
+    },
+  };
+}
+
+function createOllamaClient(config: LLMConfig): LLMClient {
+  return {
+    provider: config.provider,
+    model: config.model,
+    async generate(prompt, options = {}) {
+      try {
+        const response = await axios.post(`${config.baseUrl}/api/chat`, {
+          model: config.model,
+          messages: [{ role: 'user', content: prompt }],
+          stream: false,
+          options: {
+            ...(options.temperature !== undefined && { temperature: options.temperature }),
+            ...(options.maxOutputTokens !== undefined && { num_predict: options.maxOutputTokens }),
+          },
+        }, { timeout: config.timeoutMs });
+
+        const text = response.data?.message?.content;
+        if (typeof text !== 'string') {
+          throw new Error('Ollama response contained no message content');
+        }
+        const { prompt_eval_count: promptTokens, eval_count: completionTokens } = response.data;
+        return {
+          text,
+          provider: config.provider,
+          model: config.model,
+          usage: typeof completionTokens === 'number'
+            ? { promptTokens: promptTokens ?? 0, completionTokens }
+            : estimateUsage(prompt, text),
+        };
+      } catch (error) {
+        throw describeHttpError(config, error);
+      }
+    },
+  };
+}
+
+export function createLLMClient(config: LLMConfig): LLMClient {
+  switch (config.provider) {
+    case AIProvider.GEMINI:
+      return createGeminiClient(config);
+    case AIProvider.OPENAI:
+    case AIProvider.LLAMACPP:
+      return createOpenAICompatibleClient(config);
+    case AIProvider.OLLAMA:
+      return createOllamaClient(config);
+  }
+}
+
+// Client for one AI task, configured from the environment. Calls are retried and rate-limited
+// by the shared call policy. With a validation id every call's token usage is recorded against
+// that validation under the task name; with a prompt id and LLM_CACHE enabled, repeated
+// requests are answered from the response cache.
+export function getLLMClient(task: LLMTask, options: LLMClientOptions = {}): LLMClient {
+  const { validationId, prompt: promptId, ...overrides } = options;
+  const config = resolveLLMConfig(task, overrides);
+  console.log(`🧠 ${task}: using ${PROVIDER_NAMES[config.provider]} (${config.model})`);
+
+  const client = withCallPolicy(createLLMClient(config), task, validationId);
+  const cacheable = !!promptId && isResponseCacheEnabled();
+  if (!validationId && !cacheable) return client;
+
+  return {
+    ...client,
+    async generate(prompt, generateOptions) {
+      const response = promptId && cacheable
+        ? await generateWithCache(client, task, promptId, prompt, generateOptions, validationId)
+        : await client.generate(prompt, generateOptions);
+      if (!validationId) return response;
+
+      await recordTokenUsage(validationId, {
+        step: task,
+        provider: response.provider,
+        model: response.model,
+        promptTokens: response.usage.promptTokens,
+        completionTokens: response.usage.completionTokens,
+        ...(response.usage.estimated && { estimated: true }),
+        ...(response.cached && { cached: true }),
+      });
+      return response;
+    },
+  };
+}
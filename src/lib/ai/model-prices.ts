@@ -0,0 +1,53 @@
+// USD per million tokens. LLM_PRICES overrides or extends this table with JSON such as
+// {"gpt-4o": {"input": 2.5, "output": 10}}; a "provider:*" key prices every model of a provider.
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+const DEFAULT_MODEL_PRICES: { [model: string]: ModelPrice } = {
+  'gemini-2.0-flash-exp': { input: 0.10, output: 0.40 },
+  'gemini-2.0-flash': { input: 0.10, output: 0.40 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.30 },
+  'gemini-1.5-pro': { input: 1.25, output: 5.00 },
+  'gpt-4o-mini': { input: 0.15, output: 0.60 },
+  'gpt-4o': { input: 2.50, output: 10.00 },
+  // Self-hosted models cost nothing per token
+  'ollama:*': { input: 0, output: 0 },
+  'llamacpp:*': { input: 0, output: 0 },
+};
+
+let cachedPrices: { source: string | undefined; table: { [model: string]: ModelPrice } } | null = null;
+
+function getPriceTable(): { [model: string]: ModelPrice } {
+  const source = process.env.LLM_PRICES;
+  if (cachedPrices && cachedPrices.source === source) return cachedPrices.table;
+
+  let overrides: { [model: string]: ModelPrice } = {};
+  if (source) {
+    try {
+      overrides = JSON.parse(source);
+    } catch (error) {
+      console.error('Ignoring invalid LLM_PRICES:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  cachedPrices = { source, table: { ...DEFAULT_MODEL_PRICES, ...overrides } };
+  return cachedPrices.table;
+}
+
+export function getModelPrice(provider: string, model: string): ModelPrice | null {
+  const table = getPriceTable();
+  const exact = table[model] || table[`${provider}:${model}`];
+  if (exact) return exact;
+
+  // Dated snapshots such as gpt-4o-mini-2024-07-18 use their base model's price
+  const base = Object.keys(table)
+    .filter(key => !key.includes(':') && model.startsWith(`${key}-`))
+    .sort((x, y) => y.length - x.length)[0];
+  return (base && table[base]) || table[`${provider}:*`] || null;
+}
+
+export function calculateCost(price: ModelPrice, promptTokens: number, completionTokens: number): number {
+  return (promptTokens * price.input + completionTokens * price.output) / 1_000_000;
+}
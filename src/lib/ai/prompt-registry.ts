@@ -0,0 +1,50 @@
+import { PromptVersions } from '@/types/validation';
+import { PromptTemplate } from './prompts/template';
+import { refineIdeaPrompt } from './prompts/refine-idea';
+import { subredditDiscoveryPrompt } from './prompts/subreddit-discovery';
+import { redditContentAnalysisPrompt } from './prompts/reddit-content-analysis';
+import { competitorResearchPrompt } from './prompts/competitor-research';
+import { marketSizeResearchPrompt } from './prompts/market-size-research';
+import { scalabilityResearchPrompt } from './prompts/scalability-research';
+import { moatResearchPrompt } from './prompts/moat-research';
+import { uvzResearchPrompt } from './prompts/uvz-research';
+import { mvpTimelineResearchPrompt } from './prompts/mvp-timeline-research';
+import { startupAnalysisPrompt } from './prompts/startup-analysis';
+import { validationSummaryPrompt } from './prompts/validation-summary';
+
+// Every prompt sent to a model is registered here under its id
+const PROMPTS = {
+  refineIdea: refineIdeaPrompt,
+  subredditDiscovery: subredditDiscoveryPrompt,
+  redditContentAnalysis: redditContentAnalysisPrompt,
+  competitorResearch: competitorResearchPrompt,
+  marketSizeResearch: marketSizeResearchPrompt,
+  scalabilityResearch: scalabilityResearchPrompt,
+  moatResearch: moatResearchPrompt,
+  uvzResearch: uvzResearchPrompt,
+  mvpTimelineResearch: mvpTimelineResearchPrompt,
+  startupAnalysis: startupAnalysisPrompt,
+  validationSummary: validationSummaryPrompt,
+};
+
+export type PromptId = keyof typeof PROMPTS;
+
+export type PromptVariables<K extends PromptId> = (typeof PROMPTS)[K] extends PromptTemplate<infer V> ? V : never;
+
+export function renderPrompt<K extends PromptId>(id: K, variables: PromptVariables<K>): string {
+  const template = PROMPTS[id] as PromptTemplate<PromptVariables<K>>;
+  return template.render(variables);
+}
+
+export function getPromptVersion(id: PromptId): number {
+  return PROMPTS[id].version;
+}
+
+// Current versions of the given prompts, as recorded on a validation
+export function getPromptVersions(ids: PromptId[]): PromptVersions {
+  const versions: PromptVersions = {};
+  for (const id of ids) {
+    versions[id] = PROMPTS[id].version;
+  }
+  return versions;
+}
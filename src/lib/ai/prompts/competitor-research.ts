@@ -0,0 +1,54 @@
+import { definePrompt, RefinedIdeaVariables } from './template';
+
+export const competitorResearchPrompt = definePrompt<RefinedIdeaVariables>({
+  id: 'competitorResearch',
+  version: 1,
+  description: 'Competitive landscape: direct, indirect and substitute competitors',
+  render: ({ oneLiner, targetAudience, problemSolved }) => `You are a market research expert with access to current web information. Research the competitive landscape for this startup idea:
+
+STARTUP IDEA: "${oneLiner}"
+TARGET AUDIENCE: "${targetAudience}"
+PROBLEM SOLVED: "${problemSolved}"
+
+Search the web to find:
+1. DIRECT COMPETITORS: Companies solving the exact same problem for the same audience
+2. INDIRECT COMPETITORS: Companies solving similar problems or serving the same audience differently
+3. SUBSTITUTE SOLUTIONS: Current alternatives people use instead
+
+For each competitor, research:
+- Company name and what they do
+- Funding status and company size
+- Common user complaints (from reviews, forums, social media)
+- Their main strengths and weaknesses
+- Pricing model if available
+- Market position
+
+Also identify:
+- Market gaps and unmet needs
+- Opportunities for differentiation
+- Overall competitive landscape assessment
+
+IMPORTANT: Search for CURRENT information and provide REAL companies that exist today. Respond with ONLY valid JSON:
+
+{
+  "competitors": [
+    {
+      "name": "Company Name",
+      "description": "Brief description of what they do",
+      "category": "direct|indirect|substitute",
+      "fundingStatus": "bootstrapped|seed|series-a|series-b|public|unknown",
+      "userComplaints": ["specific complaints users mention"],
+      "strengths": ["what they do well"],
+      "weaknesses": ["areas where they fall short"],
+      "pricing": "pricing model or 'unknown'",
+      "marketPosition": "leader|challenger|niche|startup"
+    }
+  ],
+  "marketGaps": ["identified gaps in the current market"],
+  "opportunities": ["opportunities for differentiation"],
+  "competitiveLandscape": "overall assessment of competition level",
+  "totalCompetitors": 0
+}
+
+Search for real, current companies and provide accurate information about the competitive landscape.`,
+});
@@ -0,0 +1,84 @@
+import { definePrompt, RefinedIdeaVariables } from './template';
+
+export const marketSizeResearchPrompt = definePrompt<RefinedIdeaVariables>({
+  id: 'marketSizeResearch',
+  version: 1,
+  description: 'TAM/SAM/SOM sizing, growth rate and market segments',
+  render: ({ oneLiner, targetAudience, problemSolved }) => `You are a seasoned market research analyst. Calculate realistic market sizing for this startup idea using industry data and comparable markets:
+
+STARTUP IDEA: "${oneLiner}"
+TARGET AUDIENCE: "${targetAudience}"
+PROBLEM SOLVED: "${problemSolved}"
+
+Calculate market sizing using these approaches:
+1. INDUSTRY APPROACH: Find the broader industry market size (e.g. design software, social media tools, productivity apps)
+2. COMPARABLE APPROACH: Look at similar successful companies and their market sizes
+3. BOTTOMS-UP APPROACH: Estimate based on target audience size and pricing
+
+Market Sizing Framework:
+- TAM: Broader industry/category market size (e.g. $50B design software market)
+- SAM: Addressable portion for this specific solution (e.g. 10-20% of TAM)
+- SOM: Realistic capture rate for a startup (e.g. 0.1-1% of SAM in 5 years)
+
+GROWTH RATE RESEARCH:
+- Software/SaaS markets typically grow 15-25% annually
+- Design tools: Canva grew 60% YoY, Figma grew 50% YoY
+- Productivity apps: Notion grew 100% YoY, Slack grew 30% YoY
+- AI tools: Growing 40-80% annually
+- Mobile apps: Generally 10-20% growth
+
+MARKET SIZING PRINCIPLES:
+- Use bottoms-up analysis: Count potential users × willingness to pay
+- Cross-check with top-down industry data
+- Consider geographic and demographic constraints
+- Factor in market maturity and competitive landscape
+- Be conservative with penetration rates for new concepts
+
+Growth rates should reflect industry benchmarks and market dynamics, not wishful thinking. Respond with ONLY valid JSON:
+
+{
+  "totalAddressableMarket": {
+    "value": 15000000000,
+    "currency": "USD",
+    "timeframe": "annual",
+    "source": "Industry analysis and comparable market research"
+  },
+  "serviceableAddressableMarket": {
+    "value": 1500000000,
+    "currency": "USD", 
+    "description": "Realistic addressable portion based on target audience and geographic reach"
+  },
+  "serviceableObtainableMarket": {
+    "value": 30000000,
+    "currency": "USD",
+    "description": "Conservative 5-year market capture estimate for a successful startup"
+  },
+  "marketGrowthRate": {
+    "annual": 22,
+    "trend": "growing",
+    "drivers": ["Digital transformation", "Remote work trends", "AI adoption", "Mobile-first design"]
+  },
+  "marketSegments": [
+    {
+      "segment": "Small Business/SME",
+      "size": 2000000000,
+      "growthPotential": "high"
+    },
+    {
+      "segment": "Enterprise",
+      "size": 1500000000,
+      "growthPotential": "medium"
+    },
+    {
+      "segment": "Individual Users",
+      "size": 500000000,
+      "growthPotential": "medium"
+    }
+  ],
+  "industryTrends": ["current industry trends"],
+  "marketMaturity": "emerging|growing|mature|declining",
+  "keyInsights": ["important market insights and opportunities"]
+}
+
+Research current market conditions and provide accurate market sizing based on real data sources.`,
+});
@@ -0,0 +1,103 @@
+import { definePrompt, RefinedIdeaVariables } from './template';
+
+export const mvpTimelineResearchPrompt = definePrompt<RefinedIdeaVariables>({
+  id: 'mvpTimelineResearch',
+  version: 1,
+  description: 'MVP build phases, critical path and launch plan',
+  render: ({ oneLiner, targetAudience, problemSolved }) => `You are a lean startup expert specializing in FAST MVP development. Create an aggressive but realistic timeline for this startup idea:
+
+STARTUP IDEA: "${oneLiner}"
+TARGET AUDIENCE: "${targetAudience}"
+PROBLEM SOLVED: "${problemSolved}"
+
+MVP PHILOSOPHY: Build the absolute minimum viable product to test core assumptions QUICKLY.
+
+COMPLEXITY ASSESSMENT:
+- Simple web app/landing page: 2-4 weeks
+- Basic SaaS tool: 4-8 weeks  
+- Mobile app: 6-10 weeks
+- AI/ML product: 8-12 weeks
+- Complex platform: 10-16 weeks
+
+KEY PRINCIPLES:
+1. MAXIMUM 12 weeks for ANY MVP (most should be 4-8 weeks)
+2. Cut features ruthlessly - only core functionality
+3. Use no-code/low-code where possible
+4. Prioritize speed over perfection
+5. Focus on validation, not polish
+
+BENCHMARKS:
+- Figma MVP: 6 weeks (design tool)
+- Canva MVP: 8 weeks (design platform)
+- Notion MVP: 10 weeks (productivity tool)
+- Slack MVP: 8 weeks (communication tool)
+
+CRITICAL: Keep timeline UNDER 10 weeks for most ideas. Only complex technical products should exceed this.
+
+Respond with ONLY valid JSON:
+
+{
+  "totalTimelineWeeks": 8,
+  "developmentPhases": [
+    {
+      "phase": "phase name",
+      "duration": 2,
+      "description": "what happens in this phase",
+      "deliverables": ["specific deliverables"],
+      "dependencies": ["what this phase depends on"],
+      "risks": [
+        {
+          "risk": "specific risk",
+          "impact": "high|medium|low",
+          "mitigation": "how to mitigate this risk"
+        }
+      ],
+      "teamRequirements": ["team members needed"],
+      "estimatedCost": "cost range for this phase"
+    }
+  ],
+  "criticalPath": [
+    {
+      "milestone": "critical milestone",
+      "week": 4,
+      "importance": "critical|important|nice-to-have",
+      "blockers": ["potential blockers"]
+    }
+  ],
+  "resourceRequirements": {
+    "technical": ["technical skills needed"],
+    "design": ["design skills needed"],
+    "business": ["business skills needed"],
+    "totalBudgetRange": "total estimated budget",
+    "teamSize": "recommended team size"
+  },
+  "timeToMarket": {
+    "mvpLaunch": 8,
+    "betaTesting": 6,
+    "marketReady": 8,
+    "scaleReady": 16
+  },
+  "technicalComplexity": {
+    "score": 5,
+    "factors": ["complexity factors"],
+    "estimatedDevTime": "development time estimate",
+    "scalingChallenges": ["scaling challenges"]
+  },
+  "launchStrategy": {
+    "goToMarketApproach": "recommended go-to-market strategy",
+    "initialUserAcquisition": ["user acquisition methods"],
+    "validationMethods": ["how to validate MVP"],
+    "successMetrics": ["key success metrics"]
+  },
+  "postMVPRoadmap": [
+    {
+      "feature": "feature name",
+      "priority": "high|medium|low",
+      "timeframe": "when to build this",
+      "userValue": "value this provides to users"
+    }
+  ]
+}
+
+Research current development practices and provide realistic MVP timeline analysis based on proven development methodologies.`,
+});
@@ -0,0 +1,98 @@
+import { definePrompt, RefinedIdeaVariables } from './template';
+
+export interface AnalysisPost {
+  title: string;
+  content: string;
+  comments: string;     // One comment per line, replies indented under their parent
+  source: string;       // Evidence source label, e.g. 'Reddit'
+  community: string;    // Subreddit name for Reddit posts
+  upvotes: number;
+  author: string;
+}
+
+export const redditContentAnalysisPrompt = definePrompt<RefinedIdeaVariables & { posts: AnalysisPost[] }>({
+  id: 'redditContentAnalysis',
+  version: 3,
+  description: 'Relevant quotes, sentiment and pain points from discussion posts (Reddit and other sources)',
+  render: ({ oneLiner, targetAudience, problemSolved, posts }) => `You are analyzing online discussions to validate a startup idea. You must be completely objective and avoid positive bias.
+
+STARTUP IDEA: "${oneLiner}"
+TARGET AUDIENCE: "${targetAudience}"
+PROBLEM BEING SOLVED: "${problemSolved}"
+
+Below are ${posts.length} posts from relevant communities. Analyze them objectively to understand:
+1. How relevant each post is to this startup idea (be strict - only include truly relevant content)
+2. The actual sentiment of people discussing this problem space (don't assume problems exist)
+3. What specific pain points people are expressing (only real, explicit pain points)
+4. Whether there's genuine demand for this solution (be skeptical)
+
+POSTS TO ANALYZE:
+${posts.map((post, i) => `
+POST ${i + 1}:
+Title: ${post.title}
+Content: ${post.content}
+Comments (replies indented under their parent):
+${post.comments || '(none)'}
+Source: ${post.source}
+Community: ${post.community}
+Upvotes: ${post.upvotes}
+Author: ${post.author}
+---`).join('\n')}
+
+CRITICAL BIAS-PREVENTION INSTRUCTIONS:
+- DO NOT assume frustration exists where it's not explicitly stated
+- DO NOT interpret neutral statements as frustrated
+- BE STRICT about relevance - only include posts directly about this specific problem
+- PREFER neutral/satisfied sentiment when unclear
+- ONLY mark as "frustrated" when users explicitly express anger, annoyance, or strong dissatisfaction
+- MARK as "satisfied" when users mention working solutions or positive experiences
+- MARK as "neutral" for informational posts, questions, or mild concerns
+
+SENTIMENT CRITERIA:
+- "frustrated": Contains explicit negative emotions ("hate", "terrible", "nightmare", "driving me crazy", "so annoying")
+- "satisfied": Contains positive language ("works great", "love", "perfect", "solved my problem")
+- "neutral": Everything else (questions, information sharing, mild concerns, general discussion)
+
+RELEVANCE CRITERIA:
+- 1.0: Post is EXACTLY about this specific problem/solution
+- 0.8: Post mentions this problem as a significant issue
+- 0.6: Post touches on this problem area
+- 0.4 or below: Not truly relevant (exclude these)
+
+IMPORTANT: Respond with ONLY valid JSON in this exact format:
+
+{
+  "relevantQuotes": [
+    {
+      "quote": "exact text from a post that's relevant to the startup idea",
+      "author": "username",
+      "subreddit": "community the quote came from (subreddit name for Reddit)",
+      "upvotes": 0,
+      "url": "post_url",
+      "sentiment": "frustrated|neutral|satisfied",
+      "relevanceScore": 0.8,
+      "painPointCategory": "brief category like 'finding reliable contractors'",
+      "sentimentConfidence": 0.9
+    }
+  ],
+  "overallSentiment": 4.2,
+  "painPoints": ["specific pain point 1", "specific pain point 2"],
+  "keyInsights": ["insight about market demand", "insight about user behavior"],
+  "frustrationLevel": 0.6,
+  "totalRelevantPosts": 15,
+  "analysisConfidence": 0.8
+}
+
+Guidelines:
+- ONLY include quotes from posts/comments that directly relate to the startup problem (relevanceScore >= 0.6)
+- Extract the EXACT text from posts/comments (not summaries)
+- Replies often hold the most concrete experiences; quote them like any other comment, using the reply's author and upvotes
+- Sentiment scale: 1-10 (1=very frustrated, 10=very satisfied). Use 5-6 for neutral content.
+- Relevance score: 0-1 (1=highly relevant to the specific startup idea)
+- Extract 5-15 most relevant quotes maximum (be selective)
+- Focus ONLY on posts that show explicit problems, real user pain points, or actual experiences
+- Include what people are ACTUALLY saying about this problem space
+- If fewer than 3 posts are truly relevant to the startup idea, return small arrays
+- sentimentConfidence: 0-1 (how confident you are in the sentiment classification)
+- analysisConfidence: 0-1 (overall confidence in the analysis quality)`,
+});
@@ -0,0 +1,14 @@
+import { definePrompt } from './template';
+
+export const refineIdeaPrompt = definePrompt<{ idea: string }>({
+  id: 'refineIdea',
+  version: 1,
+  description: 'Turns a raw idea into a one-liner, target audience and problem',
+  render: ({ idea }) => `Refine this startup idea: "${idea}". 
+
+IMPORTANT: Respond with ONLY valid JSON in this exact format. No markdown, no additional text:
+
+{"oneLiner": "A clear, compelling one-sentence description of the refined idea", "targetAudience": "Specific target market and user demographics", "problem": "The main problem this startup solves"}
+
+Ensure the JSON is properly formatted and contains all three fields.`,
+});
@@ -0,0 +1,68 @@
+import { definePrompt } from './template';
+
+export interface StartupAnalysisVariables {
+  idea: string;
+  industry: string;
+  targetMarket: string;
+  // Included in the prompt as JSON, whatever their shape
+  redditInsights?: unknown;
+  trendsData?: unknown;
+  youtubeData?: unknown;
+}
+
+export const startupAnalysisPrompt = definePrompt<StartupAnalysisVariables>({
+  id: 'startupAnalysis',
+  version: 1,
+  description: 'BUILD/PIVOT/PASS recommendation with risks, opportunities and market size',
+  render: data => `
+You are an expert startup advisor and market researcher. Analyze this startup idea and provide detailed insights.
+
+STARTUP IDEA:
+"${data.idea}"
+
+INDUSTRY: ${data.industry}
+TARGET MARKET: ${data.targetMarket}
+
+${data.redditInsights ? `REDDIT INSIGHTS: ${JSON.stringify(data.redditInsights, null, 2)}` : ''}
+${data.trendsData ? `TRENDS DATA: ${JSON.stringify(data.trendsData, null, 2)}` : ''}
+${data.youtubeData ? `YOUTUBE DATA: ${JSON.stringify(data.youtubeData, null, 2)}` : ''}
+
+Please provide a comprehensive analysis in the following JSON format:
+
+{
+  "recommendation": "BUILD" | "PIVOT" | "PASS",
+  "reasoning": "Detailed explanation of why you made this recommendation",
+  "confidence": 75, // 0-100 confidence score
+  "risks": [
+    {
+      "type": "MARKET" | "TECHNICAL" | "COMPETITIVE" | "REGULATORY",
+      "level": "LOW" | "MEDIUM" | "HIGH",
+      "description": "Description of the risk",
+      "mitigation": "How to address this risk"
+    }
+  ],
+  "opportunities": [
+    "List of market opportunities and advantages"
+  ],
+  "nextSteps": [
+    "Specific actionable next steps for the entrepreneur"
+  ],
+  "marketSize": {
+    "tam": 1000000000, // Total Addressable Market in USD
+    "sam": 100000000,  // Serviceable Addressable Market in USD  
+    "som": 10000000    // Serviceable Obtainable Market in USD
+  }
+}
+
+Guidelines:
+- Be honest and data-driven in your assessment
+- Consider market demand, competition, trends, and feasibility
+- Provide specific, actionable advice
+- Include realistic market size estimates
+- Identify the most critical risks and opportunities
+- Consider the target market and industry context
+- If data is limited, acknowledge it but still provide best judgment
+
+Return only the JSON response, no additional text.
+`,
+});
@@ -0,0 +1,19 @@
+// A named prompt whose text is built from typed variables. Bump `version` whenever the
+// wording changes so stored validations show which revision produced their report.
+export interface PromptTemplate<V> {
+  id: string;
+  version: number;
+  description: string;
+  render: (variables: V) => string;
+}
+
+export function definePrompt<V>(template: PromptTemplate<V>): PromptTemplate<V> {
+  return template;
+}
+
+// Startup idea fields most prompts are built from
+export interface RefinedIdeaVariables {
+  oneLiner: string;
+  targetAudience: string;
+  problemSolved: string;
+}
@@ -0,0 +1,82 @@
+import { definePrompt, RefinedIdeaVariables } from './template';
+
+export const uvzResearchPrompt = definePrompt<RefinedIdeaVariables>({
+  id: 'uvzResearch',
+  version: 1,
+  description: 'Unique value proposition, advantages and market gaps',
+  render: ({ oneLiner, targetAudience, problemSolved }) => `You are a strategic business analyst with access to current market information. Analyze the unique value zone and competitive differentiation for this startup idea:
+
+STARTUP IDEA: "${oneLiner}"
+TARGET AUDIENCE: "${targetAudience}"
+PROBLEM SOLVED: "${problemSolved}"
+
+Research and analyze:
+1. UNIQUE VALUE PROPOSITION: What makes this solution uniquely valuable?
+2. COMPETITIVE ADVANTAGES: Search for current competitors and identify gaps this startup could exploit
+3. MARKET POSITIONING: How should this startup position itself differently?
+4. DIFFERENTIATION OPPORTUNITIES: What specific advantages could this startup develop?
+5. TIMING ADVANTAGES: Are there current market conditions that favor this approach?
+
+For each competitive advantage, research:
+- Current solutions and their limitations
+- User complaints about existing alternatives  
+- Technological or business model opportunities
+- Barriers competitors would face copying this approach
+
+Also identify:
+- Market gaps that aren't being addressed
+- Weaknesses in current market leaders
+- Opportunities for better user experience
+- Potential risks to uniqueness
+
+UNIQUENESS SCORING (0-100):
+Evaluate uniqueness based on:
+- Market differentiation: How different is this from existing solutions?
+- Competitive barriers: How hard would this be for others to copy?
+- Value proposition: Does the differentiation create meaningful value?
+- Market timing: Is this uniqueness relevant to current market needs?
+- Implementation difficulty: Technical or business model innovations
+
+Consider both the innovation level and market viability. Revolutionary technology in a tiny market may score lower than modest innovation in a large market. Respond with ONLY valid JSON:
+
+{
+  "uniqueValueProposition": {
+    "primaryValue": "main unique value this startup provides",
+    "secondaryValues": ["supporting value propositions"],
+    "targetDifferentiator": "key way this differs from competitors"
+  },
+  "competitiveAdvantages": [
+    {
+      "advantage": "specific competitive advantage",
+      "category": "technology|business-model|user-experience|pricing|market-positioning",
+      "strength": "high|medium|low",
+      "evidence": "evidence supporting this advantage",
+      "defensibility": "high|medium|low"
+    }
+  ],
+  "marketGaps": [
+    {
+      "gap": "identified market gap",
+      "opportunity": "opportunity this gap represents",
+      "marketSize": "large|medium|niche",
+      "timingAdvantage": true
+    }
+  ],
+  "differentiationStrategy": {
+    "primaryDifferentiator": "main way to differentiate",
+    "supportingDifferentiators": ["additional differentiation methods"],
+    "positioningStatement": "suggested market positioning",
+    "targetWeakness": "competitor weakness to exploit"
+  },
+  "uniquenessScore": 35,
+  "riskFactors": [
+    {
+      "risk": "risk to maintaining uniqueness",
+      "impact": "high|medium|low", 
+      "mitigation": "how to mitigate this risk"
+    }
+  ]
+}
+
+Research current market conditions and provide strategic differentiation analysis based on real competitive landscape.`,
+});
@@ -0,0 +1,76 @@
+import { definePrompt } from './template';
+
+// Condensed research results the summary is written from; plain lists are joined into the prompt as text
+export interface SummaryAnalysisData {
+  overallScore: number;
+  marketDemand: number;
+  socialData: { totalMentions: number; frustratedUsers: number; topQuotes: { quote: string }[] };
+  competition: { competitorsFound: number; complaints: unknown[]; opportunities: unknown[] };
+  marketSize: { totalMarket: number; growthRate: number; segments: { name: string }[] };
+  scalability: { score: number; businessModel: string; growthFactors: unknown[] };
+  moat: { score: number; strategy: string; threats: unknown[] };
+  uniqueValue: { score: number; advantages: unknown[]; differentiators: unknown[] };
+}
+
+export const validationSummaryPrompt = definePrompt<SummaryAnalysisData>({
+  id: 'validationSummary',
+  version: 1,
+  description: 'BUILD/PIVOT/AVOID summary of a finished validation',
+  render: analysisData => `You are a startup validation expert analyzing comprehensive market research data. Provide a strategic summary and recommendation.
+
+VALIDATION DATA:
+Overall Score: ${analysisData.overallScore}/100
+Market Demand Score: ${analysisData.marketDemand}/100
+
+MARKET RESEARCH:
+- Social mentions: ${analysisData.socialData.totalMentions}
+- Frustrated users: ${analysisData.socialData.frustratedUsers}
+- Sample user quotes: ${analysisData.socialData.topQuotes.map(q => `"${q.quote}"`).join(', ')}
+
+COMPETITION:
+- Competitors found: ${analysisData.competition.competitorsFound}
+- User complaints about existing solutions: ${analysisData.competition.complaints.join(', ')}
+- Market opportunities: ${analysisData.competition.opportunities.join(', ')}
+
+MARKET SIZE:
+- Total addressable market: $${analysisData.marketSize.totalMarket.toLocaleString()}
+- Annual growth rate: ${analysisData.marketSize.growthRate}%
+- Key segments: ${analysisData.marketSize.segments.map(s => s.name).join(', ')}
+
+SCALABILITY:
+- Scalability score: ${analysisData.scalability.score}/100
+- Business model: ${analysisData.scalability.businessModel}
+- Growth factors: ${analysisData.scalability.growthFactors.join(', ')}
+
+COMPETITIVE PROTECTION:
+- Moat score: ${analysisData.moat.score}/100
+- Protection strategy: ${analysisData.moat.strategy}
+- Main threats: ${analysisData.moat.threats.join(', ')}
+
+UNIQUE VALUE:
+- Uniqueness score: ${analysisData.uniqueValue.score}/100
+- Key advantages: ${analysisData.uniqueValue.advantages.join(', ')}
+- Differentiators: ${analysisData.uniqueValue.differentiators.join(', ')}
+
+Based on this comprehensive analysis, provide a strategic assessment. Be realistic about market validation - a score of 50+ often indicates decent market opportunity. Focus on practical next steps rather than being overly critical.
+
+Respond with ONLY valid JSON in this exact format:
+
+{
+  "recommendation": "BUILD|PIVOT|AVOID",
+  "reasoning": "2-3 sentence explanation of the recommendation based on the data",
+  "keyStrengths": ["strength 1", "strength 2", "strength 3"],
+  "mainConcerns": ["concern 1", "concern 2", "concern 3"],
+  "actionItems": ["action 1", "action 2", "action 3"],
+  "confidenceLevel": "High|Medium|Low",
+  "marketOpportunity": "1 sentence about market potential",
+  "competitivePosition": "1 sentence about competitive landscape"
+}
+
+RECOMMENDATION CRITERIA:
+- BUILD: Score 60+, decent market validation, viable opportunity
+- PIVOT: Score 40-59, weak validation, consider significant changes
+- AVOID: Score <40, poor market validation or major red flags
+
+Be objective and base recommendations strictly on the data provided.`,
+});
@@ -0,0 +1,139 @@
+// Checks that quotes returned by the model actually appear in the posts they were drawn from.
+// Models trim, re-punctuate and occasionally invent quotes, so matching is fuzzy: the score is
+// the share of the quote's words found together in the best window of the source text.
+
+// At or above this the quote is treated as verbatim evidence
+export const VERIFIED_MATCH_SCORE = 0.85;
+// Below this no source is close enough and the quote is dropped
+export const MIN_MATCH_SCORE = 0.6;
+
+// Quotes this short only count when they appear exactly
+const MIN_FUZZY_WORDS = 4;
+
+// Comments may carry their own permalink and nested replies; a quote found in one is
+// attributed to that comment rather than the post
+export interface QuoteSourceComment {
+  body: string;
+  permalink?: string;
+  replies?: QuoteSourceComment[];
+}
+
+export interface QuoteSource {
+  url: string;
+  title: string;
+  content: string;
+  comments?: QuoteSourceComment[];
+  origin?: string;         // Evidence source the post came from
+}
+
+export interface QuoteMatch {
+  url: string;
+  origin?: string;
+  matchScore: number;      // 0-1
+  matchedIn: 'title' | 'body' | 'comment';
+}
+
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .replace(/[^a-z0-9\u00C0-\u024F'\s]/g, ' ')  // Latin letters, digits and apostrophes
+    .replace(/'/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Best share of quote words present in any window slightly longer than the quote
+function windowOverlapScore(quoteWords: string[], sourceWords: string[]): number {
+  const needed = new Map<string, number>();
+  for (const word of quoteWords) needed.set(word, (needed.get(word) || 0) + 1);
+
+  const windowSize = Math.ceil(quoteWords.length * 1.25);
+  const inWindow = new Map<string, number>();
+  let matched = 0;
+  let best = 0;
+
+  for (let i = 0; i < sourceWords.length; i++) {
+    const added = sourceWords[i];
+    const addedCount = (inWindow.get(added) || 0) + 1;
+    inWindow.set(added, addedCount);
+    if (addedCount <= (needed.get(added) || 0)) matched++;
+
+    if (i >= windowSize) {
+      const removed = sourceWords[i - windowSize];
+      const removedCount = inWindow.get(removed) || 0;
+      inWindow.set(removed, removedCount - 1);
+      if (removedCount <= (needed.get(removed) || 0)) matched--;
+    }
+    best = Math.max(best, matched);
+  }
+
+  return best / quoteWords.length;
+}
+
+export function scoreQuoteMatch(quote: string, sourceText: string): number {
+  const normalizedQuote = normalize(quote);
+  const normalizedSource = normalize(sourceText);
+  if (!normalizedQuote || !normalizedSource) return 0;
+  if (normalizedSource.includes(normalizedQuote)) return 1;
+
+  const quoteWords = normalizedQuote.split(' ');
+  if (quoteWords.length < MIN_FUZZY_WORDS) return 0;
+  return windowOverlapScore(quoteWords, normalizedSource.split(' '));
+}
+
+function flattenComments(comments: QuoteSourceComment[] = []): QuoteSourceComment[] {
+  return comments.flatMap(comment => [comment, ...flattenComments(comment.replies)]);
+}
+
+// Closest source for a quote, or null when nothing reaches MIN_MATCH_SCORE
+export function findQuoteSource(quote: string, sources: QuoteSource[]): QuoteMatch | null {
+  let best: QuoteMatch | null = null;
+
+  for (const source of sources) {
+    const candidates: Array<[QuoteMatch['matchedIn'], string, string]> = [
+      ['title', source.title, source.url],
+      ['body', source.content, source.url],
+      ...flattenComments(source.comments).map(
+        comment => ['comment', comment.body, comment.permalink || source.url] as [QuoteMatch['matchedIn'], string, string]
+      ),
+    ];
+
+    for (const [matchedIn, text, url] of candidates) {
+      const matchScore = scoreQuoteMatch(quote, text);
+      if (matchScore >= MIN_MATCH_SCORE && (!best || matchScore > best.matchScore)) {
+        best = { url, origin: source.origin, matchScore, matchedIn };
+        if (matchScore === 1) return best;
+      }
+    }
+  }
+
+  return best;
+}
+
+// Attaches the matched source URL, origin and score to each quote and separates out the ones that
+// could not be found in any source
+export function verifyQuotes<Q extends { quote: string; url: string }>(
+  quotes: Q[],
+  sources: QuoteSource[]
+): { kept: Array<Q & { matchScore: number; verified: boolean; origin?: string }>; dropped: Q[] } {
+  const kept: Array<Q & { matchScore: number; verified: boolean; origin?: string }> = [];
+  const dropped: Q[] = [];
+
+  for (const quote of quotes) {
+    const match = findQuoteSource(quote.quote, sources);
+    if (!match) {
+      dropped.push(quote);
+      continue;
+    }
+    kept.push({
+      ...quote,
+      url: match.url,
+      ...(match.origin !== undefined && { origin: match.origin }),
+      matchScore: Math.round(match.matchScore * 100) / 100,
+      verified: match.matchScore >= VERIFIED_MATCH_SCORE,
+    });
+  }
+
+  return { kept, dropped };
+}
@@ -0,0 +1,99 @@
+import { createHash } from 'crypto';
+import { deleteCache, loadCache, loadValidation, saveCache } from '@/lib/storage/json';
+import { LLMClient, LLMGenerateOptions, LLMResponse, LLMTask } from './llm-client';
+import { getPromptVersion, PromptId } from './prompt-registry';
+
+// Opt-in cache of model responses for registered prompts:
+//   LLM_CACHE=true      - serve identical requests from data/cache instead of calling the model
+//   LLM_CACHE_TTL       - seconds an entry stays valid (default one day)
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60;
+
+export interface ResponseCacheStats {
+  hits: number;
+  misses: number;
+  bypassed: number;
+}
+
+// Counters since the process started, kept on globalThis so dev-mode hot reloads share them
+const globalForCache = globalThis as unknown as { aiResponseCacheStats?: { [task: string]: ResponseCacheStats } };
+
+export function isResponseCacheEnabled(): boolean {
+  return process.env.LLM_CACHE === 'true';
+}
+
+function getTTLSeconds(): number {
+  return parseInt(process.env.LLM_CACHE_TTL || '', 10) || DEFAULT_TTL_SECONDS;
+}
+
+// Anything that changes the model's output is part of the key, so a new prompt version or
+// model never reuses an older answer
+function responseCacheKey(llm: LLMClient, promptId: PromptId, prompt: string, options: LLMGenerateOptions = {}): string {
+  const hash = createHash('sha256')
+    .update(JSON.stringify([
+      llm.provider,
+      llm.model,
+      promptId,
+      getPromptVersion(promptId),
+      options.temperature ?? null,
+      options.maxOutputTokens ?? null,
+      prompt,
+    ]))
+    .digest('hex');
+  return `ai-${hash}`;
+}
+
+// Validations started with bypassCache always go to the model
+async function shouldBypassCache(validationId: string | undefined): Promise<boolean> {
+  if (!validationId) return false;
+  const validation = await loadValidation(validationId);
+  return validation?.bypassCache === true;
+}
+
+// Drops a response that turned out to be unusable so the next run asks the model again
+export async function evictCachedResponse(key: string): Promise<void> {
+  await deleteCache(key);
+}
+
+function recordCacheLookup(task: LLMTask, outcome: keyof ResponseCacheStats): void {
+  const stats = globalForCache.aiResponseCacheStats ??= {};
+  const taskStats = stats[task] ??= { hits: 0, misses: 0, bypassed: 0 };
+  taskStats[outcome] += 1;
+}
+
+// Answers from the cache when an identical request was made before, otherwise calls the
+// model and stores its response. The key is returned so unusable responses can be evicted.
+export async function generateWithCache(
+  llm: LLMClient,
+  task: LLMTask,
+  promptId: PromptId,
+  prompt: string,
+  options: LLMGenerateOptions | undefined,
+  validationId?: string
+): Promise<LLMResponse> {
+  if (await shouldBypassCache(validationId)) {
+    recordCacheLookup(task, 'bypassed');
+    return llm.generate(prompt, options);
+  }
+
+  const key = responseCacheKey(llm, promptId, prompt, options);
+  const cached: LLMResponse | null = await loadCache(key);
+  if (cached) {
+    recordCacheLookup(task, 'hits');
+    console.log(`💾 ${task}: using cached AI response`);
+    return { ...cached, cached: true, cacheKey: key };
+  }
+
+  recordCacheLookup(task, 'misses');
+  const response = await llm.generate(prompt, options);
+  await saveCache(key, response, getTTLSeconds());
+  return { ...response, cacheKey: key };
+}
+
+export function getResponseCacheStats(): { enabled: boolean; ttlSeconds: number; total: ResponseCacheStats; byTask: { [task: string]: ResponseCacheStats } } {
+  const byTask = globalForCache.aiResponseCacheStats || {};
+  const total = Object.values(byTask).reduce(
+    (sum, stats) => ({ hits: sum.hits + stats.hits, misses: sum.misses + stats.misses, bypassed: sum.bypassed + stats.bypassed }),
+    { hits: 0, misses: 0, bypassed: 0 }
+  );
+  return { enabled: isResponseCacheEnabled(), ttlSeconds: getTTLSeconds(), total, byTask };
+}
@@ -0,0 +1,131 @@
+import { z } from 'zod';
+import { LLMClient, LLMGenerateOptions, LLMTask } from './llm-client';
+import { saveDebugLog } from '@/lib/storage/debug-storage';
+import { evictCachedResponse } from './response-cache';
+
+// First attempt plus two repair prompts
+const DEFAULT_MAX_ATTEMPTS = 3;
+
+// How much of a bad response is echoed back to the model and into the debug log
+const RAW_PREVIEW_LENGTH = 4000;
+
+export type StructuredOutputErrorKind = 'parse' | 'schema';
+
+// Thrown when a model response cannot be turned into the expected shape
+export class StructuredOutputError extends Error {
+  constructor(
+    public readonly kind: StructuredOutputErrorKind,
+    public readonly issues: string[],
+    public readonly rawText: string
+  ) {
+    super(`${kind === 'parse' ? 'AI response is not valid JSON' : 'AI response does not match the expected format'}: ${issues.slice(0, 5).join('; ')}`);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+export interface StructuredOutputOptions extends LLMGenerateOptions {
+  task: LLMTask;
+  validationId?: string;   // Attempts are written to this validation's debug log
+  maxAttempts?: number;
+}
+
+// Lower-cased enum, since models capitalise labels like "High" at random
+export function lenientEnum<const T extends readonly [string, ...string[]]>(values: T) {
+  return z.preprocess(value => (typeof value === 'string' ? value.trim().toLowerCase() : value), z.enum(values));
+}
+
+// Escapes raw newlines and tabs inside string literals and drops other control characters
+function sanitizeJSONString(text: string): string {
+  return text
+    .replace(/("(?:[^"\\]|\\.)*?")/g, match => match.replace(/\n/g, '\\n').replace(/\r/g, '\\r').replace(/\t/g, '\\t'))
+    .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F\x7F]/g, '')
+    .replace(/,(\s*[}\]])/g, '$1'); // Trailing commas
+}
+
+// Pulls the JSON value out of a response that may be wrapped in markdown or prose
+export function extractJSON(aiText: string): unknown {
+  let cleanText = aiText.trim().replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
+
+  const firstBrace = cleanText.search(/[{[]/);
+  const closing = cleanText[firstBrace] === '[' ? ']' : '}';
+  const lastBrace = cleanText.lastIndexOf(closing);
+  if (firstBrace !== -1 && lastBrace > firstBrace) {
+    cleanText = cleanText.substring(firstBrace, lastBrace + 1);
+  }
+
+  try {
+    return JSON.parse(cleanText);
+  } catch (parseError) {
+    try {
+      return JSON.parse(sanitizeJSONString(cleanText));
+    } catch {
+      throw new StructuredOutputError('parse', [parseError instanceof Error ? parseError.message : 'Unknown parse error'], aiText);
+    }
+  }
+}
+
+export function parseStructuredOutput<T extends z.ZodType>(aiText: string, schema: T): z.infer<T> {
+  const parsed = schema.safeParse(extractJSON(aiText));
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(e => `${e.path.join('.') || '(root)'}: ${e.message}`);
+    throw new StructuredOutputError('schema', issues, aiText);
+  }
+  return parsed.data;
+}
+
+function buildRepairPrompt(prompt: string, error: StructuredOutputError): string {
+  return `${prompt}
+
+Your previous response could not be used because ${error.kind === 'parse' ? 'it was not valid JSON' : 'it did not match the required JSON format'}:
+${error.issues.slice(0, 20).map(issue => `- ${issue}`).join('\n')}
+
+PREVIOUS RESPONSE:
+${error.rawText.substring(0, RAW_PREVIEW_LENGTH)}
+
+Return the complete corrected response as ONLY valid JSON in the required format, with no markdown or additional text.`;
+}
+
+// Generates, parses and validates a JSON response, feeding validation errors back to the
+// model until the output matches the schema or the attempts run out
+export async function generateStructuredOutput<T extends z.ZodType>(
+  llm: LLMClient,
+  prompt: string,
+  schema: T,
+  options: StructuredOutputOptions
+): Promise<z.infer<T>> {
+  const { task, validationId, maxAttempts = DEFAULT_MAX_ATTEMPTS, ...generateOptions } = options;
+  const failures: Array<{ attempt: number; kind: StructuredOutputErrorKind; issues: string[]; rawPreview: string }> = [];
+
+  let currentPrompt = prompt;
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const { text: aiText, cacheKey } = await llm.generate(currentPrompt, generateOptions);
+
+    try {
+      const data = parseStructuredOutput(aiText, schema);
+      if (failures.length > 0) {
+        console.log(`🔧 ${task}: repaired AI output after ${attempt} attempts`);
+        if (validationId) {
+          await saveDebugLog(validationId, `ai-output-${task}`, { provider: llm.provider, model: llm.model, attempts: attempt, failures }, true);
+        }
+      }
+      return data;
+    } catch (error) {
+      if (!(error instanceof StructuredOutputError)) throw error;
+      if (cacheKey) await evictCachedResponse(cacheKey);
+
+      console.warn(`⚠️ ${task}: invalid AI output (${error.kind}, attempt ${attempt}/${maxAttempts}):`, error.issues.slice(0, 5).join('; '));
+      failures.push({ attempt, kind: error.kind, issues: error.issues, rawPreview: aiText.substring(0, RAW_PREVIEW_LENGTH) });
+
+      if (attempt === maxAttempts) {
+        if (validationId) {
+          await saveDebugLog(validationId, `ai-output-${task}`, { provider: llm.provider, model: llm.model, attempts: attempt, failures }, false, error.message);
+        }
+        throw error;
+      }
+      currentPrompt = buildRepairPrompt(prompt, error);
+    }
+  }
+
+  // Unreachable: the last attempt either returns or throws
+  throw new Error(`${task}: no AI output after ${maxAttempts} attempts`);
+}
@@ -0,0 +1,127 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { CostBreakdown, CostLineItem, ModelUsage, TokenUsageEntry } from '@/types/validation';
+import { saveCache, loadCache, deleteCache } from '@/lib/storage/json';
+import { calculateCost, getModelPrice } from './model-prices';
+
+// One ledger file per validation, kept apart from the validation record so steps running
+// in parallel don't race the pipeline's own writes to it
+const USAGE_DIR = path.join(process.cwd(), 'data', 'usage');
+
+// Serializes read-modify-write cycles from model calls that finish at the same time
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+function usageFilePath(validationId: string): string {
+  return path.join(USAGE_DIR, `${validationId}.json`);
+}
+
+export async function loadTokenUsage(validationId: string): Promise<TokenUsageEntry[]> {
+  try {
+    const data = await fs.readFile(usageFilePath(validationId), 'utf-8');
+    return JSON.parse(data) as TokenUsageEntry[];
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error(`Error loading token usage for ${validationId}:`, error);
+    }
+    return [];
+  }
+}
+
+export function recordTokenUsage(validationId: string, entry: Omit<TokenUsageEntry, 'recordedAt'>): Promise<void> {
+  const task = writeQueue.then(async () => {
+    const entries = await loadTokenUsage(validationId);
+    entries.push({ ...entry, recordedAt: new Date().toISOString() });
+
+    await fs.mkdir(USAGE_DIR, { recursive: true });
+    const filePath = usageFilePath(validationId);
+    const tempFilePath = `${filePath}.tmp`;
+    await fs.writeFile(tempFilePath, JSON.stringify(entries, null, 2));
+    await fs.rename(tempFilePath, filePath);
+  });
+
+  writeQueue = task.catch(error => console.error(`Failed to record token usage for ${validationId}:`, error));
+  return writeQueue as Promise<void>;
+}
+
+// Idea refinement runs before its validation exists, so the server holds its usage under a
+// one-time id; the client only passes that id on, never the token counts themselves
+const REFINEMENT_USAGE_TTL_SECONDS = 24 * 60 * 60;
+
+function refinementCacheKey(refinementId: string): string {
+  return `refinement_usage_${refinementId}`;
+}
+
+export async function holdRefinementUsage(usage: ModelUsage): Promise<string> {
+  const refinementId = randomUUID();
+  await saveCache(refinementCacheKey(refinementId), usage, REFINEMENT_USAGE_TTL_SECONDS);
+  return refinementId;
+}
+
+// Moves held refinement usage onto the validation's ledger; an unknown or already claimed id
+// records nothing
+export async function claimRefinementUsage(refinementId: string, validationId: string): Promise<void> {
+  const usage: ModelUsage | null = await loadCache(refinementCacheKey(refinementId));
+  if (!usage) {
+    console.warn(`⚠️ No refinement usage held under ${refinementId}, not recording it`);
+    return;
+  }
+
+  await deleteCache(refinementCacheKey(refinementId));
+  await recordTokenUsage(validationId, { step: 'refineIdea', ...usage });
+}
+
+// Groups usage by step and model and prices it with the current price table
+export function buildCostBreakdown(entries: TokenUsageEntry[]): CostBreakdown {
+  const items = new Map<string, CostLineItem & { provider: string }>();
+
+  for (const entry of entries) {
+    const key = `${entry.step}|${entry.provider}|${entry.model}`;
+    const item = items.get(key) || {
+      step: entry.step,
+      provider: entry.provider,
+      model: entry.model,
+      calls: 0,
+      cachedCalls: 0,
+      promptTokens: 0,
+      completionTokens: 0,
+      cost: null,
+    };
+    if (entry.cached) {
+      item.cachedCalls += 1;
+    } else {
+      item.calls += 1;
+      item.promptTokens += entry.promptTokens;
+      item.completionTokens += entry.completionTokens;
+    }
+    items.set(key, item);
+  }
+
+  const unpricedModels = new Set<string>();
+  const lineItems: CostLineItem[] = [];
+  for (const { provider, ...item } of items.values()) {
+    const price = getModelPrice(provider, item.model);
+    if (price) {
+      item.cost = calculateCost(price, item.promptTokens, item.completionTokens);
+    } else {
+      unpricedModels.add(item.model);
+    }
+    lineItems.push(item);
+  }
+
+  return {
+    currency: 'USD',
+    totalCost: lineItems.reduce((sum, item) => sum + (item.cost || 0), 0),
+    totalPromptTokens: lineItems.reduce((sum, item) => sum + item.promptTokens, 0),
+    totalCompletionTokens: lineItems.reduce((sum, item) => sum + item.completionTokens, 0),
+    calls: lineItems.reduce((sum, item) => sum + item.calls, 0),
+    cacheHits: lineItems.reduce((sum, item) => sum + item.cachedCalls, 0),
+    items: lineItems,
+    unpricedModels: [...unpricedModels],
+    computedAt: new Date().toISOString(),
+  };
+}
+
+export async function loadCostBreakdown(validationId: string): Promise<CostBreakdown> {
+  return buildCostBreakdown(await loadTokenUsage(validationId));
+}
@@ -0,0 +1,134 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+
+// Local stand-in for the parts of trends.google.com the fetcher uses: explore hands out widget
+// tokens, widgetdata answers them. Responses carry the same anti-JSON-hijacking prefixes and
+// the same first-visit 429 + cookie behaviour as Google.
+
+// Weekly points start on this Sunday; 52 weeks cover January to December 2024
+const FIRST_WEEK = Date.UTC(2024, 0, 7);
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+const WEEKS = 52;
+
+export interface StandInKeyword {
+  weekly: (week: Date) => number;          // Interest (0-100) for the week starting at this date
+  regions?: { [region: string]: number };
+  related?: { top: string[]; rising: string[] };
+}
+
+export interface TrendsStandInOptions {
+  keywords: { [keyword: string]: StandInKeyword };   // Unknown keywords have no interest at all
+  cookie?: string;                  // Requests without it get a 429 that sets it, like a first visit
+  rateLimited?: boolean;            // Every request gets a 429 with no way around it
+  failingWidgets?: string[];        // widgetdata endpoints that answer 500, e.g. 'comparedgeo'
+  failingKeywords?: string[];       // Keywords whose explore request answers 500
+}
+
+export interface TrendsStandIn {
+  baseUrl: string;
+  requests: string[];               // Paths in the order they were requested, including refused ones
+  close: () => Promise<void>;
+}
+
+function send(res: http.ServerResponse, status: number, prefix: string, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  res.end(prefix + JSON.stringify(body));
+}
+
+function timeline(keyword: StandInKeyword | undefined) {
+  return Array.from({ length: WEEKS }, (_, index) => {
+    const week = new Date(FIRST_WEEK + index * WEEK_MS);
+    const value = keyword ? keyword.weekly(week) : 0;
+    return {
+      time: String(week.getTime() / 1000),
+      formattedTime: week.toDateString(),
+      value: [value],
+      hasData: [value > 0],
+      formattedValue: [String(value)],
+    };
+  });
+}
+
+function widgetData(endpoint: string, keyword: StandInKeyword | undefined) {
+  switch (endpoint) {
+    case 'multiline':
+      return { default: { timelineData: timeline(keyword), averages: [] } };
+    case 'comparedgeo':
+      return {
+        default: {
+          geoMapData: Object.entries(keyword?.regions || {}).map(([geoName, value]) => ({
+            geoName,
+            value: [value],
+            formattedValue: [String(value)],
+            hasData: [value > 0],
+            maxValueIndex: 0,
+          })),
+        },
+      };
+    case 'relatedsearches':
+      return {
+        default: {
+          rankedList: [keyword?.related?.top || [], keyword?.related?.rising || []].map(queries => ({
+            rankedKeyword: queries.map((query, index) => ({ query, value: 100 - index * 10, formattedValue: String(100 - index * 10) })),
+          })),
+        },
+      };
+    default:
+      return null;
+  }
+}
+
+export async function startTrendsStandIn(options: TrendsStandInOptions): Promise<TrendsStandIn> {
+  const requests: string[] = [];
+
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    requests.push(url.pathname);
+
+    if (options.rateLimited) {
+      return send(res, 429, '', { error: 'Too Many Requests' });
+    }
+    if (options.cookie && !req.headers.cookie?.includes(options.cookie)) {
+      res.setHeader('Set-Cookie', `${options.cookie}; expires=Fri, 01-Jan-2100 00:00:00 GMT; path=/; HttpOnly`);
+      return send(res, 429, '', { error: 'Too Many Requests' });
+    }
+
+    const params = JSON.parse(url.searchParams.get('req') || '{}');
+
+    if (url.pathname === '/trends/api/explore') {
+      const { keyword } = params.comparisonItem?.[0] || {};
+      if (options.failingKeywords?.includes(keyword)) {
+        return send(res, 500, '', { error: 'Internal Server Error' });
+      }
+      const request = { keyword, time: params.comparisonItem?.[0]?.time };
+      return send(res, 200, ")]}'\n", {
+        widgets: [
+          { id: 'TIMESERIES', token: `ts-${keyword}`, request, title: 'Interest over time' },
+          { id: 'GEO_MAP', token: `geo-${keyword}`, request, title: 'Interest by region' },
+          { id: 'RELATED_TOPICS', token: `topics-${keyword}`, request, title: 'Related topics' },
+          { id: 'RELATED_QUERIES', token: `queries-${keyword}`, request, title: 'Related queries' },
+        ],
+      });
+    }
+
+    const widget = url.pathname.match(/^\/trends\/api\/widgetdata\/(\w+)$/);
+    if (widget) {
+      if (options.failingWidgets?.includes(widget[1])) {
+        return send(res, 500, '', { error: 'Internal Server Error' });
+      }
+      const data = widgetData(widget[1], options.keywords[params.keyword]);
+      if (data) return send(res, 200, ")]}',\n", data);
+    }
+
+    send(res, 404, '', { error: 'Not Found' });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    baseUrl: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise<void>((resolve, reject) => server.close(error => (error ? reject(error) : resolve()))),
+  };
+}
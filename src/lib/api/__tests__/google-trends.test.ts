@@ -0,0 +1,186 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  calculateGrowthRate,
+  calculateSeasonality,
+  fetchTrendsForKeywords,
+  toMonthly,
+  TrendsRequestError,
+} from '../google-trends';
+import { StandInKeyword, startTrendsStandIn, TrendsStandIn, TrendsStandInOptions } from './google-trends-stand-in';
+
+// Every lookup goes to the stand-in, and nothing is written to data/cache
+vi.mock('../../storage/json', () => ({
+  loadCache: vi.fn(async () => null),
+  saveCache: vi.fn(async () => undefined),
+}));
+
+// Interest climbs 5 points a month, from 20 in January to 75 in December
+const invoiceReminders: StandInKeyword = {
+  weekly: week => 20 + week.getUTCMonth() * 5,
+  regions: { 'United States': 100, 'United Kingdom': 64, Iceland: 0 },
+  related: { top: ['invoice reminder template', 'late payment email'], rising: ['ai invoice reminders', 'late payment email'] },
+};
+
+function point(date: string, value: number) {
+  return { time: String(Date.parse(date) / 1000), value: [value] };
+}
+
+describe('toMonthly', () => {
+  it('averages weekly points into calendar months', () => {
+    expect(toMonthly([
+      point('2024-01-07', 10),
+      point('2024-01-14', 20),
+      point('2024-01-21', 30),
+      point('2024-01-28', 40),
+      point('2024-02-04', 50),
+      point('2024-02-11', 71),
+    ])).toEqual([25, 61]);
+  });
+
+  it('keeps the latest 12 months', () => {
+    const points = Array.from({ length: 14 }, (_, month) => point(new Date(Date.UTC(2023, month, 15)).toISOString(), month));
+    expect(toMonthly(points)).toEqual([2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13]);
+  });
+
+  it('counts missing values as no interest', () => {
+    expect(toMonthly([{ time: point('2024-03-03', 0).time, value: [] }, point('2024-03-10', 30)])).toEqual([15]);
+  });
+});
+
+describe('calculateGrowthRate', () => {
+  it('compares the latest quarter with the first', () => {
+    expect(calculateGrowthRate([10, 10, 10, 15, 15, 15, 15, 15, 15, 20, 20, 20])).toBe(100);
+    expect(calculateGrowthRate([20, 20, 20, 15, 15, 15, 15, 15, 15, 10, 10, 10])).toBe(-50);
+    expect(calculateGrowthRate([30, 33, 36, 30, 30, 30, 30, 30, 30, 36, 36, 36])).toBe(9.1);
+  });
+
+  it('needs at least six months', () => {
+    expect(calculateGrowthRate([10, 20, 30, 40, 50])).toBe(0);
+  });
+
+  it('treats interest appearing from nothing as doubling', () => {
+    expect(calculateGrowthRate([0, 0, 0, 5, 10, 20])).toBe(100);
+    expect(calculateGrowthRate([0, 0, 0, 0, 0, 0])).toBe(0);
+  });
+});
+
+describe('calculateSeasonality', () => {
+  it('is zero for flat or missing interest', () => {
+    expect(calculateSeasonality(Array(12).fill(40))).toBe(0);
+    expect(calculateSeasonality(Array(12).fill(0))).toBe(0);
+  });
+
+  it('grows with how far the busiest month stands out', () => {
+    expect(calculateSeasonality([...Array(11).fill(20), 30])).toBe(0.22);
+    expect(calculateSeasonality([...Array(11).fill(10), 100])).toBe(1);
+  });
+});
+
+describe('fetchTrendsForKeywords', () => {
+  let standIn: TrendsStandIn | undefined;
+
+  async function serve(options: TrendsStandInOptions) {
+    standIn = await startTrendsStandIn(options);
+    vi.stubEnv('GOOGLE_TRENDS_BASE_URL', standIn.baseUrl);
+    return standIn;
+  }
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await standIn?.close();
+    standIn = undefined;
+  });
+
+  it('fills TrendsData from interest over time, regions and related queries', async () => {
+    const { requests } = await serve({ keywords: { 'invoice reminders': invoiceReminders } });
+
+    const trends = await fetchTrendsForKeywords(['invoice reminders']);
+
+    expect(trends).toEqual({
+      keyword: 'invoice reminders',
+      timeframe: '12 months',
+      searchVolume: [20, 25, 30, 35, 40, 45, 50, 55, 60, 65, 70, 75],
+      growthRate: 180,
+      relatedQueries: ['invoice reminder template', 'late payment email', 'ai invoice reminders'],
+      regionalInterest: { 'United States': 100, 'United Kingdom': 64 },
+      seasonality: 0.29,
+      consistency: 1,
+      // interest 47.5 * 0.4 + growth 35 + consistency 15 + 3 related queries
+      score: 72,
+    });
+    expect(requests).toEqual([
+      '/trends/api/explore',
+      '/trends/api/widgetdata/multiline',
+      '/trends/api/widgetdata/comparedgeo',
+      '/trends/api/widgetdata/relatedsearches',
+    ]);
+  });
+
+  it('moves on from keywords nobody searches for', async () => {
+    await serve({ keywords: { 'invoice reminders': invoiceReminders } });
+
+    const trends = await fetchTrendsForKeywords(['automated invoice nudging', 'invoice reminders']);
+
+    expect(trends?.keyword).toBe('invoice reminders');
+  });
+
+  it('returns null when no keyword has measurable interest', async () => {
+    await serve({ keywords: {} });
+
+    expect(await fetchTrendsForKeywords(['automated invoice nudging', 'payment nudges'])).toBeNull();
+  });
+
+  it('retries once with the cookie Google sets on a first visit', async () => {
+    const { requests } = await serve({ keywords: { 'invoice reminders': invoiceReminders }, cookie: 'NID=first-visit' });
+
+    const trends = await fetchTrendsForKeywords(['invoice reminders']);
+
+    expect(trends?.keyword).toBe('invoice reminders');
+    expect(requests.slice(0, 2)).toEqual(['/trends/api/explore', '/trends/api/explore']);
+  });
+
+  it('stops trying keywords once rate limited', async () => {
+    const { requests } = await serve({ keywords: { 'invoice reminders': invoiceReminders }, rateLimited: true });
+
+    const lookup = fetchTrendsForKeywords(['invoice reminders', 'late payments']);
+
+    await expect(lookup).rejects.toBeInstanceOf(TrendsRequestError);
+    await expect(lookup).rejects.toMatchObject({ status: 429 });
+    expect(requests).toEqual(['/trends/api/explore']);
+  });
+
+  it('returns null when a keyword answered with no interest after an earlier one failed', async () => {
+    const { requests } = await serve({ keywords: {}, failingKeywords: ['invoice reminders'] });
+
+    expect(await fetchTrendsForKeywords(['invoice reminders', 'payment nudges'])).toBeNull();
+    expect(requests.filter(path => path === '/trends/api/explore')).toHaveLength(2);
+  });
+
+  it('fails when every keyword failed', async () => {
+    await serve({ keywords: {}, failingKeywords: ['invoice reminders', 'late payments'] });
+
+    await expect(fetchTrendsForKeywords(['invoice reminders', 'late payments'])).rejects.toMatchObject({
+      name: 'TrendsRequestError',
+      status: 500,
+    });
+  });
+
+  it('keeps the interest data when regional or related data fails', async () => {
+    await serve({ keywords: { 'invoice reminders': invoiceReminders }, failingWidgets: ['comparedgeo', 'relatedsearches'] });
+
+    const trends = await fetchTrendsForKeywords(['invoice reminders']);
+
+    expect(trends?.searchVolume).toHaveLength(12);
+    expect(trends?.regionalInterest).toEqual({});
+    expect(trends?.relatedQueries).toEqual([]);
+  });
+
+  it('fails when the interest data itself is unavailable', async () => {
+    await serve({ keywords: { 'invoice reminders': invoiceReminders }, failingWidgets: ['multiline'] });
+
+    await expect(fetchTrendsForKeywords(['invoice reminders'])).rejects.toMatchObject({
+      name: 'TrendsRequestError',
+      status: 500,
+    });
+  });
+});
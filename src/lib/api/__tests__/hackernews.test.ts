@@ -0,0 +1,219 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import axios from 'axios';
+import { EvidenceSourceContext, getAttemptedQueries } from '../evidence-source';
+import { hackerNewsEvidenceSource, htmlToText, parseChildren } from '../hackernews';
+import invoiceReminders from './fixtures/hackernews/search-invoice-reminders.json';
+import latePayments from './fixtures/hackernews/search-late-payments.json';
+import askHnThread from './fixtures/hackernews/item-39011234.json';
+
+vi.mock('axios', () => ({ default: { get: vi.fn() } }));
+
+// Every search misses the cache, and nothing is written to data/cache
+vi.mock('../../storage/json', () => ({
+  loadCache: vi.fn(async () => null),
+  saveCache: vi.fn(async () => undefined),
+}));
+
+const RECORDED_SEARCHES: { [query: string]: unknown } = {
+  'invoice reminders': invoiceReminders,
+  'late payments': latePayments,
+};
+const RECORDED_ITEMS: { [id: string]: unknown } = {
+  '39011234': askHnThread,
+};
+
+// Answers Algolia requests from the recorded responses; anything unrecorded fails like a 503
+async function replayAlgolia(url: string, config?: { params?: { query?: string } }) {
+  const recorded = url.endsWith('/search')
+    ? RECORDED_SEARCHES[config?.params?.query || '']
+    : RECORDED_ITEMS[url.split('/items/')[1]];
+  if (!recorded) throw new Error('Request failed with status code 503');
+  return { data: recorded };
+}
+
+function context(overrides: Partial<EvidenceSourceContext> = {}): EvidenceSourceContext {
+  return {
+    validationId: 'test-validation',
+    idea: 'Automatic invoice reminders for freelancers',
+    keywords: ['invoice reminders', 'late payments'],
+    refinedIdea: {
+      oneLiner: 'Automatic invoice reminders for freelancers',
+      targetAudience: 'Freelancers',
+      problem: 'Chasing late invoices takes hours every month',
+    },
+    recommendedSubreddits: [],
+    focusQueries: [],
+    painPointQueries: [],
+    ...overrides,
+  };
+}
+
+const threadChildren = askHnThread.children as Parameters<typeof parseChildren>[0];
+
+describe('htmlToText', () => {
+  it('turns paragraphs and line breaks into newlines', () => {
+    expect(htmlToText('<p>One<p>Two<br>Three')).toBe('One\n\nTwo\nThree');
+  });
+
+  it('decodes the entities Algolia escapes', () => {
+    expect(htmlToText('&quot;never got&quot; &amp; I can&#x27;t &gt; 2 weeks')).toBe('"never got" & I can\'t > 2 weeks');
+  });
+
+  it('keeps link text and drops the markup', () => {
+    expect(htmlToText('<a href="https:&#x2F;&#x2F;example.com" rel="nofollow">https:&#x2F;&#x2F;example.com</a>')).toBe('https://example.com');
+  });
+
+  it('decodes &amp; last so escaped entities stay literal', () => {
+    expect(htmlToText('&amp;lt;p&amp;gt;')).toBe('&lt;p&gt;');
+  });
+
+  it('returns an empty string for missing text', () => {
+    expect(htmlToText(null)).toBe('');
+    expect(htmlToText(undefined)).toBe('');
+  });
+});
+
+describe('parseChildren', () => {
+  it('skips deleted comments and keeps replies nested', () => {
+    const comments = parseChildren(threadChildren, 0, { remaining: 40 });
+
+    expect(comments.map(comment => comment.id)).toEqual(['39011301', '39011587']);
+    expect(comments[0]).toMatchObject({
+      author: 'bookkeeper42',
+      body: 'Automated reminders at 7, 14 and 30 days. The 30 day one CCs their accounts payable address & that\'s what gets paid.',
+      ups: 0,
+      permalink: 'https://news.ycombinator.com/item?id=39011301',
+      depth: 0,
+    });
+    expect(comments[0].replies[0]).toMatchObject({ id: '39011303', author: 'freelance_dev', depth: 1 });
+  });
+
+  it('stops at the maximum reply depth', () => {
+    const comments = parseChildren(threadChildren, 0, { remaining: 40 });
+    const deepest = comments[0].replies[0].replies[0].replies[0];
+
+    expect(deepest).toMatchObject({ id: '39011305', depth: 3, body: 'Thanks, trying it this week.' });
+    expect(deepest.replies).toEqual([]);
+  });
+
+  it('keeps at most the comment budget, depth first', () => {
+    const comments = parseChildren(threadChildren, 0, { remaining: 2 });
+
+    expect(comments.map(comment => comment.id)).toEqual(['39011301']);
+    expect(comments[0].replies.map(reply => reply.id)).toEqual(['39011303']);
+    expect(comments[0].replies[0].replies).toEqual([]);
+  });
+});
+
+describe('hackerNewsEvidenceSource', () => {
+  const get = vi.mocked(axios.get);
+
+  beforeEach(() => {
+    get.mockReset();
+    get.mockImplementation(replayAlgolia as typeof axios.get);
+  });
+
+  it('plans focus and pain point queries, falling back to keywords', () => {
+    expect(hackerNewsEvidenceSource.planQueries(context())).toEqual([
+      { query: 'invoice reminders' },
+      { query: 'late payments' },
+    ]);
+    expect(hackerNewsEvidenceSource.planQueries(context({
+      focusQueries: ['a', 'b', 'c'],
+      painPointQueries: ['d', 'e'],
+    }))).toEqual([{ query: 'a' }, { query: 'b' }, { query: 'c' }, { query: 'd' }]);
+  });
+
+  it('collects stories and comments once each, skipping empty hits', async () => {
+    const { items, queries } = await hackerNewsEvidenceSource.fetchItems(
+      [{ query: 'invoice reminders' }, { query: 'late payments' }],
+      context()
+    );
+
+    expect(items.map(item => item.objectID)).toEqual(['39011234', '38870455', '38990001', '38700912']);
+    expect(queries).toEqual([
+      { query: 'invoice reminders', found: 4, cached: false },
+      { query: 'late payments', found: 2, cached: false },
+    ]);
+  });
+
+  it('searches within the time window', async () => {
+    await hackerNewsEvidenceSource.fetchItems([{ query: 'invoice reminders' }], context());
+    expect(get.mock.calls[0][1]?.params).toMatchObject({
+      query: 'invoice reminders',
+      tags: '(story,comment)',
+      hitsPerPage: 20,
+      numericFilters: expect.stringMatching(/^created_at_i>\d+$/),
+    });
+
+    get.mockClear();
+    await hackerNewsEvidenceSource.fetchItems([{ query: 'invoice reminders' }], context({ searchOptions: { timeFilter: 'all' } }));
+    expect(get.mock.calls[0][1]?.params).not.toHaveProperty('numericFilters');
+  });
+
+  it('crawls comment threads only for well discussed stories', async () => {
+    const { items } = await hackerNewsEvidenceSource.fetchItems([{ query: 'invoice reminders' }], context());
+
+    const itemRequests = get.mock.calls.map(call => call[0]).filter(url => url.includes('/items/'));
+    expect(itemRequests).toEqual(['https://hn.algolia.com/api/v1/items/39011234']);
+    expect(items.find(item => item.objectID === '39011234')?.comments).toHaveLength(2);
+    expect(items.find(item => item.objectID === '38990001')?.comments).toBeUndefined();
+  });
+
+  it('records a failed query and carries on with the rest', async () => {
+    const { items, queries } = await hackerNewsEvidenceSource.fetchItems(
+      [{ query: 'unrecorded query' }, { query: 'late payments' }],
+      context()
+    );
+
+    expect(queries[0]).toEqual({ query: 'unrecorded query', found: 0, error: 'Request failed with status code 503' });
+    expect(items.map(item => item.objectID)).toEqual(['39011234', '38700912']);
+  });
+
+  it('reports the queries already run when cancelled part-way', async () => {
+    const cancelled = new Error('Validation test-validation was cancelled');
+    let checks = 0;
+    const checkCancelled = async () => {
+      if (++checks === 2) throw cancelled;
+    };
+
+    const error = await hackerNewsEvidenceSource.fetchItems(
+      [{ query: 'invoice reminders' }, { query: 'late payments' }],
+      context({ checkCancelled })
+    ).catch(error => error);
+
+    expect(error).toBe(cancelled);
+    expect(getAttemptedQueries(error)).toEqual([{ query: 'invoice reminders', found: 4, cached: false }]);
+  });
+
+  it('normalizes stories and comments into evidence items', async () => {
+    const { items } = await hackerNewsEvidenceSource.fetchItems([{ query: 'invoice reminders' }], context());
+    const [story, comment] = items.map(item => hackerNewsEvidenceSource.normalize(item));
+
+    expect(story).toMatchObject({
+      id: '39011234',
+      origin: 'hackernews',
+      title: 'Ask HN: How do you handle invoice reminders as a freelancer?',
+      content: 'I send about 30 invoices a month and chasing late ones takes most of a Friday.\n\nClients say they "never got" the reminder & I can\'t prove otherwise. What do you use?',
+      author: 'freelance_dev',
+      score: 48,
+      community: 'Ask HN',
+      url: 'https://news.ycombinator.com/item?id=39011234',
+      createdAt: '2024-01-16T09:12:44.000Z',
+      numComments: 12,
+    });
+    expect(story.comments).toHaveLength(2);
+
+    expect(comment).toMatchObject({
+      id: '38870455',
+      origin: 'hackernews',
+      title: 'Re: Show HN: Paperwork, a tiny invoicing app',
+      content: 'Every invoice tool I\'ve tried sends reminders that land in spam.\nI ended up writing them by hand > 2 weeks late.',
+      author: 'tptacek_fan',
+      score: 0,
+      community: 'Hacker News',
+      url: 'https://news.ycombinator.com/item?id=38870455',
+      numComments: 0,
+    });
+  });
+});
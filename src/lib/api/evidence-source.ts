@@ -0,0 +1,68 @@
+import { EvidenceItem, RecommendedSubreddit, RedditSearchOptions } from '@/types/validation';
+
+// Everything a source may use to plan its searches; each source reads only what it needs
+export interface EvidenceSourceContext {
+  validationId: string;
+  idea: string;
+  keywords: string[];
+  refinedIdea: {
+    oneLiner: string;
+    targetAudience: string;
+    problem: string;
+  };
+  recommendedSubreddits: RecommendedSubreddit[];
+  focusQueries: string[];
+  painPointQueries: string[];
+  searchOptions?: RedditSearchOptions;
+  checkCancelled?: () => Promise<void>; // Throws once the validation has been cancelled
+}
+
+// One search a source will run, optionally scoped to a community such as a subreddit
+export interface EvidenceQuery {
+  query: string;
+  community?: string;
+}
+
+export interface EvidenceQueryResult extends EvidenceQuery {
+  found: number;
+  cached?: boolean;
+  error?: string;
+}
+
+export interface EvidenceFetchResult<R> {
+  items: R[];
+  queries: EvidenceQueryResult[];
+}
+
+// An error that stopped a source part-way, with the queries it had already run
+type PartialFetchError = Error & { attemptedQueries?: EvidenceQueryResult[] };
+
+export function withAttemptedQueries(error: unknown, queries: EvidenceQueryResult[]): unknown {
+  if (error instanceof Error) (error as PartialFetchError).attemptedQueries = [...queries];
+  return error;
+}
+
+export function getAttemptedQueries(error: unknown): EvidenceQueryResult[] {
+  return (error instanceof Error && (error as PartialFetchError).attemptedQueries) || [];
+}
+
+// Cancellation check for use inside fetchItems, so a source cancelled part-way still reports
+// the searches it spent
+export async function checkSourceCancelled(context: EvidenceSourceContext, queries: EvidenceQueryResult[]): Promise<void> {
+  try {
+    await context.checkCancelled?.();
+  } catch (error) {
+    throw withAttemptedQueries(error, queries);
+  }
+}
+
+// A place people discuss problems. Sources search in their own format and normalize what they
+// find, so the content analyzer, scorer and report work the same for every source.
+export interface EvidenceSource<R = any> {
+  id: string;                           // Stored as the origin of items and quotes
+  label: string;                        // Shown in reports and on the dashboard
+  planQueries: (context: EvidenceSourceContext) => EvidenceQuery[];
+  fetchItems: (queries: EvidenceQuery[], context: EvidenceSourceContext) => Promise<EvidenceFetchResult<R>>;
+  normalize: (raw: R) => EvidenceItem;
+  debugInfo: (context: EvidenceSourceContext) => Record<string, unknown>; // Added to the source's search debug log
+}
@@ -0,0 +1,252 @@
+import axios from 'axios';
+import { createHash } from 'crypto';
+import { TrendsData } from '@/types/validation';
+import { saveCache, loadCache } from '../storage/json';
+
+// Google Trends has no official API; this follows the same explore -> widget data flow as the
+// Trends website:
+//   GOOGLE_TRENDS_BASE_URL  - point at a local stand-in instead of trends.google.com
+//   GOOGLE_TRENDS_GEO       - country code to restrict interest to (default worldwide)
+const DEFAULT_BASE_URL = 'https://trends.google.com';
+const TIMEFRAME = 'today 12-m';
+const REQUEST_TIMEOUT_MS = 15000;
+
+// Interest moves slowly, and Google rate-limits hard
+const CACHE_TTL_SECONDS = 24 * 60 * 60;
+
+// Responses start with an anti-JSON-hijacking prefix such as ")]}'," before the JSON body
+const XSSI_PREFIX = /^\)\]\}',?\s*/;
+
+// Widget the explore request returns a data token for
+interface TrendsWidget {
+  id: string;              // TIMESERIES, GEO_MAP, RELATED_QUERIES, ...
+  token: string;
+  request: unknown;
+}
+
+// The parts of the explore and widgetdata responses that are read
+interface ExploreResponse {
+  widgets?: TrendsWidget[];
+}
+
+interface TimelineResponse {
+  default?: { timelineData?: Array<{ time: string; value: number[] }> };
+}
+
+interface GeoMapResponse {
+  default?: { geoMapData?: Array<{ geoName: string; value?: number[] }> };
+}
+
+interface RelatedSearchesResponse {
+  default?: { rankedList?: Array<{ rankedKeyword?: Array<{ query?: string }> }> };
+}
+
+// Failed request to Google Trends
+export class TrendsRequestError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = 'TrendsRequestError';
+  }
+}
+
+// Google answers the first request of a session with a 429 and a cookie; it is kept so later
+// requests don't pay for that round trip again
+const globalForTrends = globalThis as unknown as { googleTrendsCookie?: string };
+
+function getBaseUrl(): string {
+  return (process.env.GOOGLE_TRENDS_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, '');
+}
+
+function parseTrendsJson<T>(body: string): T {
+  return JSON.parse(body.replace(XSSI_PREFIX, ''));
+}
+
+async function trendsGet<T>(path: string, params: Record<string, string>): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const response = await axios.get<string>(`${getBaseUrl()}${path}`, {
+        params: { hl: 'en-US', tz: '0', ...params },
+        headers: globalForTrends.googleTrendsCookie ? { Cookie: globalForTrends.googleTrendsCookie } : {},
+        responseType: 'text',
+        transformResponse: data => data, // Keep the prefixed body as text
+        timeout: REQUEST_TIMEOUT_MS,
+      });
+      return parseTrendsJson<T>(response.data);
+    } catch (error) {
+      const response = axios.isAxiosError(error) ? error.response : undefined;
+      const cookie = response?.headers?.['set-cookie']?.map(value => value.split(';')[0]).join('; ');
+      if (response?.status === 429 && cookie && attempt === 1) {
+        globalForTrends.googleTrendsCookie = cookie;
+        continue;
+      }
+      throw new TrendsRequestError(
+        `Google Trends request ${path} failed${response?.status ? ` (${response.status})` : ''}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        response?.status
+      );
+    }
+  }
+}
+
+async function explore(keyword: string, geo: string): Promise<TrendsWidget[]> {
+  const data = await trendsGet<ExploreResponse>('/trends/api/explore', {
+    req: JSON.stringify({ comparisonItem: [{ keyword, geo, time: TIMEFRAME }], category: 0, property: '' }),
+  });
+  return data?.widgets || [];
+}
+
+function widgetData<T>(widget: TrendsWidget, endpoint: string): Promise<T> {
+  return trendsGet<T>(`/trends/api/widgetdata/${endpoint}`, { req: JSON.stringify(widget.request), token: widget.token });
+}
+
+// Weekly points averaged into (up to) 12 monthly values, oldest first
+export function toMonthly(points: Array<{ time: string; value: number[] }>): number[] {
+  const months = new Map<string, number[]>();
+  for (const point of points) {
+    const date = new Date(Number(point.time) * 1000);
+    const key = `${date.getUTCFullYear()}-${date.getUTCMonth()}`;
+    months.set(key, [...(months.get(key) || []), point.value?.[0] ?? 0]);
+  }
+  return Array.from(months.values())
+    .map(values => Math.round(values.reduce((a, b) => a + b, 0) / values.length))
+    .slice(-12);
+}
+
+function average(values: number[]): number {
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+}
+
+// Latest quarter against the first quarter of the year
+export function calculateGrowthRate(monthly: number[]): number {
+  if (monthly.length < 6) return 0;
+  const first = average(monthly.slice(0, 3));
+  const last = average(monthly.slice(-3));
+  if (first === 0) return last > 0 ? 100 : 0;
+  return Math.round(((last - first) / first) * 1000) / 10;
+}
+
+// 0-1: how far the busiest month stands out from the average
+export function calculateSeasonality(monthly: number[]): number {
+  const mean = average(monthly);
+  if (mean === 0) return 0;
+  return Math.round(Math.min(1, (Math.max(...monthly) - mean) / (mean * 2)) * 100) / 100;
+}
+
+// 0-1: share of months with meaningful interest
+export function calculateConsistency(monthly: number[]): number {
+  if (monthly.length === 0) return 0;
+  return Math.round((monthly.filter(value => value >= 10).length / monthly.length) * 100) / 100;
+}
+
+// Trends score (0-100): average interest (40), growth (35), consistency (15), related queries (10)
+function calculateTrendsScore(monthly: number[], growthRate: number, consistency: number, relatedQueries: string[]): number {
+  const interestScore = Math.min(average(monthly), 100) * 0.4;
+  const growthScore = Math.max(0, Math.min(35, 17.5 + growthRate * 0.35));
+  const consistencyScore = consistency * 15;
+  const relatedScore = Math.min(relatedQueries.length, 10);
+  return Math.round(interestScore + growthScore + consistencyScore + relatedScore);
+}
+
+async function fetchTrendsForKeyword(keyword: string, geo: string): Promise<TrendsData> {
+  const widgets = await explore(keyword, geo);
+  const find = (id: string) => widgets.find(widget => widget.id === id);
+
+  const timeseries = find('TIMESERIES');
+  if (!timeseries) {
+    throw new TrendsRequestError(`Google Trends returned no interest data for "${keyword}"`);
+  }
+  const timeline = await widgetData<TimelineResponse>(timeseries, 'multiline');
+  const searchVolume = toMonthly(timeline?.default?.timelineData || []);
+
+  // Regional and related data are extras; the keyword is still usable without them
+  const regionalInterest: { [region: string]: number } = {};
+  const geoWidget = find('GEO_MAP');
+  if (geoWidget) {
+    try {
+      const regions = await widgetData<GeoMapResponse>(geoWidget, 'comparedgeo');
+      for (const region of regions?.default?.geoMapData || []) {
+        const value = region.value?.[0] ?? 0;
+        if (value > 0) regionalInterest[region.geoName] = value;
+      }
+    } catch (error) {
+      console.warn(`⚠️ No regional interest for "${keyword}":`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  const relatedQueries: string[] = [];
+  const relatedWidget = find('RELATED_QUERIES');
+  if (relatedWidget) {
+    try {
+      const related = await widgetData<RelatedSearchesResponse>(relatedWidget, 'relatedsearches');
+      // Ranked lists are "top" then "rising"
+      for (const list of related?.default?.rankedList || []) {
+        for (const item of list.rankedKeyword || []) {
+          if (item.query && !relatedQueries.includes(item.query)) relatedQueries.push(item.query);
+        }
+      }
+    } catch (error) {
+      console.warn(`⚠️ No related queries for "${keyword}":`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  const growthRate = calculateGrowthRate(searchVolume);
+  const consistency = calculateConsistency(searchVolume);
+
+  return {
+    keyword,
+    timeframe: '12 months',
+    searchVolume,
+    growthRate,
+    relatedQueries: relatedQueries.slice(0, 20),
+    regionalInterest,
+    seasonality: calculateSeasonality(searchVolume),
+    consistency,
+    score: calculateTrendsScore(searchVolume, growthRate, consistency, relatedQueries),
+  };
+}
+
+function cacheKey(keyword: string, geo: string): string {
+  const hash = createHash('sha256').update(JSON.stringify([keyword.trim().toLowerCase(), geo, TIMEFRAME])).digest('hex');
+  return `trends_${hash.substring(0, 24)}`;
+}
+
+// Interest over time, related queries and regional interest for one keyword
+export async function fetchTrends(keyword: string): Promise<TrendsData> {
+  const geo = process.env.GOOGLE_TRENDS_GEO || '';
+  const key = cacheKey(keyword, geo);
+  const cached: TrendsData | null = await loadCache(key);
+  if (cached) {
+    console.log(`🎯 Using cached Google Trends data for "${keyword}"`);
+    return cached;
+  }
+
+  const trends = await fetchTrendsForKeyword(keyword, geo);
+  await saveCache(key, trends, CACHE_TTL_SECONDS);
+  return trends;
+}
+
+// Trends for the first keyword people actually search for. Niche phrasings often have no
+// measurable volume, so the next candidate is tried until one does.
+export async function fetchTrendsForKeywords(keywords: string[]): Promise<TrendsData | null> {
+  let lastError: unknown = null;
+  let failures = 0;
+  let tried = 0;
+
+  for (const keyword of keywords) {
+    tried++;
+    try {
+      const trends = await fetchTrends(keyword);
+      if (trends.searchVolume.some(value => value > 0)) return trends;
+      console.log(`📉 No measurable search interest for "${keyword}"`);
+    } catch (error) {
+      lastError = error;
+      failures++;
+      console.warn(`⚠️ Google Trends lookup failed for "${keyword}":`, error instanceof Error ? error.message : error);
+      // Rate limiting applies to every keyword, so there's no point trying the rest
+      if (error instanceof TrendsRequestError && error.status === 429) break;
+    }
+  }
+
+  // A keyword that answered with no interest means there is none to find, whatever the others did
+  if (tried > 0 && failures === tried) throw lastError;
+  return null;
+}
@@ -0,0 +1,228 @@
+import axios from 'axios';
+import { createHash } from 'crypto';
+import { RedditSearchOptions, ThreadComment } from '@/types/validation';
+import { saveCache, loadCache } from '../storage/json';
+import { EvidenceFetchResult, EvidenceQuery, EvidenceQueryResult, EvidenceSource, EvidenceSourceContext, checkSourceCancelled } from './evidence-source';
+import { resolveSearchOptions } from './reddit';
+
+// Hacker News through the public Algolia search API (no key needed). Stories, Ask HN posts and
+// comments are searched for the same AI queries as Reddit, within the same time window.
+const ALGOLIA_BASE_URL = 'https://hn.algolia.com/api/v1';
+const ITEM_BASE_URL = 'https://news.ycombinator.com/item?id=';
+const REQUEST_TIMEOUT_MS = 15000;
+
+const MAX_HN_QUERIES = 4;
+const HITS_PER_QUERY = 20;
+const MAX_HN_ITEMS = 60;
+
+// Comment threads are crawled for the most discussed stories only, like on Reddit
+const MAX_THREADS_CRAWLED = 5;
+const MIN_COMMENTS_TO_CRAWL = 5;
+const MAX_COMMENT_DEPTH = 3;
+const MAX_COMMENTS_PER_THREAD = 40;
+
+const SEARCH_CACHE_TTL_SECONDS = 6 * 60 * 60;
+
+const WINDOW_SECONDS: { [window in NonNullable<RedditSearchOptions['timeFilter']>]: number | null } = {
+  hour: 60 * 60,
+  day: 24 * 60 * 60,
+  week: 7 * 24 * 60 * 60,
+  month: 30 * 24 * 60 * 60,
+  year: 365 * 24 * 60 * 60,
+  all: null,
+};
+
+interface HNSearchHit {
+  objectID: string;
+  title?: string | null;
+  story_title?: string | null;
+  story_text?: string | null;
+  comment_text?: string | null;
+  author: string;
+  points?: number | null;
+  num_comments?: number | null;
+  created_at_i: number;
+  _tags?: string[];
+}
+
+interface HNSearchResponse {
+  hits: HNSearchHit[];
+}
+
+interface HNItem {
+  id: number;
+  author?: string | null;
+  text?: string | null;
+  points?: number | null;
+  children?: HNItem[];
+}
+
+type HNPost = HNSearchHit & { comments?: ThreadComment[] };
+
+// Algolia returns comment and story text as HTML
+export function htmlToText(html: string | null | undefined): string {
+  if (!html) return '';
+  return html
+    .replace(/<p>/gi, '\n\n')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&#x27;|&#39;/g, "'")
+    .replace(/&quot;/g, '"')
+    .replace(/&#x2F;/g, '/')
+    .replace(/&gt;/g, '>')
+    .replace(/&lt;/g, '<')
+    .replace(/&amp;/g, '&')
+    .trim();
+}
+
+function isComment(hit: HNSearchHit): boolean {
+  return !!hit._tags?.includes('comment');
+}
+
+function communityOf(hit: HNSearchHit): string {
+  if (hit._tags?.includes('ask_hn')) return 'Ask HN';
+  if (hit._tags?.includes('show_hn')) return 'Show HN';
+  return 'Hacker News';
+}
+
+function searchCacheKey(query: string, timeFilter: string): string {
+  const hash = createHash('sha256')
+    .update(JSON.stringify([query.trim().toLowerCase(), timeFilter]))
+    .digest('hex')
+    .substring(0, 24);
+  return `hn_search_${hash}`;
+}
+
+// Stories (including Ask HN) and comments matching the query, reusing a cached result for the
+// same query and window
+async function searchHackerNews(query: string, timeFilter: NonNullable<RedditSearchOptions['timeFilter']>): Promise<{ hits: HNSearchHit[]; cached: boolean }> {
+  const cacheKey = searchCacheKey(query, timeFilter);
+  const cached: HNSearchHit[] | null = await loadCache(cacheKey);
+  if (cached) {
+    console.log(`🎯 Using cached Hacker News results for "${query}"`);
+    return { hits: cached, cached: true };
+  }
+
+  const windowSeconds = WINDOW_SECONDS[timeFilter];
+  const response = await axios.get<HNSearchResponse>(`${ALGOLIA_BASE_URL}/search`, {
+    params: {
+      query,
+      tags: '(story,comment)',
+      hitsPerPage: HITS_PER_QUERY,
+      ...(windowSeconds && { numericFilters: `created_at_i>${Math.floor(Date.now() / 1000) - windowSeconds}` })
+    },
+    timeout: REQUEST_TIMEOUT_MS,
+  });
+
+  // Only the fields the analysis reads are cached
+  const hits = (response.data?.hits || []).map(({ objectID, title, story_title, story_text, comment_text, author, points, num_comments, created_at_i, _tags }) => ({
+    objectID, title, story_title, story_text, comment_text, author, points, num_comments, created_at_i, _tags
+  }));
+  await saveCache(cacheKey, hits, SEARCH_CACHE_TTL_SECONDS);
+  return { hits, cached: false };
+}
+
+// Comments of a story with their replies, down to MAX_COMMENT_DEPTH and at most
+// MAX_COMMENTS_PER_THREAD in total
+async function getCommentThread(storyId: string): Promise<ThreadComment[]> {
+  const response = await axios.get<HNItem>(`${ALGOLIA_BASE_URL}/items/${storyId}`, { timeout: REQUEST_TIMEOUT_MS });
+  return parseChildren(response.data?.children, 0, { remaining: MAX_COMMENTS_PER_THREAD });
+}
+
+export function parseChildren(children: HNItem[] | undefined, depth: number, budget: { remaining: number }): ThreadComment[] {
+  const comments: ThreadComment[] = [];
+
+  for (const child of children || []) {
+    if (budget.remaining <= 0) break;
+    const body = htmlToText(child.text);
+    if (!body || !child.author) continue; // Deleted or flagged
+
+    budget.remaining--;
+    comments.push({
+      id: String(child.id),
+      author: child.author,
+      body,
+      ups: child.points || 0,
+      permalink: `${ITEM_BASE_URL}${child.id}`,
+      depth,
+      replies: depth < MAX_COMMENT_DEPTH ? parseChildren(child.children, depth + 1, budget) : [],
+    });
+  }
+
+  return comments;
+}
+
+async function searchHackerNewsPosts(queries: EvidenceQuery[], context: EvidenceSourceContext): Promise<EvidenceFetchResult<HNPost>> {
+  const { timeFilter } = resolveSearchOptions(context.searchOptions);
+  const results: EvidenceQueryResult[] = [];
+  const posts: HNPost[] = [];
+  const seen = new Set<string>();
+
+  for (const { query } of queries) {
+    if (posts.length >= MAX_HN_ITEMS) break;
+    await checkSourceCancelled(context, results);
+
+    try {
+      console.log(`📡 Searching Hacker News for "${query}"`);
+      const { hits, cached } = await searchHackerNews(query, timeFilter);
+      results.push({ query, found: hits.length, cached });
+
+      for (const hit of hits) {
+        if (seen.has(hit.objectID)) continue;
+        if (!htmlToText(isComment(hit) ? hit.comment_text : hit.title)) continue;
+        seen.add(hit.objectID);
+        posts.push(hit);
+        if (posts.length >= MAX_HN_ITEMS) break;
+      }
+    } catch (error) {
+      console.warn(`Failed to search Hacker News for "${query}"`, error instanceof Error ? error.message : error);
+      results.push({ query, found: 0, error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }
+
+  const threadsToCrawl = posts
+    .filter(post => !isComment(post) && (post.num_comments || 0) >= MIN_COMMENTS_TO_CRAWL)
+    .sort((a, b) => (b.num_comments || 0) - (a.num_comments || 0))
+    .slice(0, MAX_THREADS_CRAWLED);
+  for (const post of threadsToCrawl) {
+    await checkSourceCancelled(context, results);
+    try {
+      post.comments = await getCommentThread(post.objectID);
+    } catch (error) {
+      console.log(`Failed to crawl Hacker News comments for ${post.objectID}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  console.log(`✅ Collected ${posts.length} Hacker News items, crawled ${threadsToCrawl.length} threads`);
+  return { items: posts, queries: results };
+}
+
+export const hackerNewsEvidenceSource: EvidenceSource<HNPost> = {
+  id: 'hackernews',
+  label: 'Hacker News',
+  // HN search is site-wide, so each query runs once rather than per community
+  planQueries: ({ focusQueries, painPointQueries, keywords }) => {
+    const queries = [...focusQueries, ...painPointQueries];
+    return (queries.length > 0 ? queries : keywords)
+      .slice(0, MAX_HN_QUERIES)
+      .map(query => ({ query }));
+  },
+  fetchItems: searchHackerNewsPosts,
+  normalize: hit => ({
+    id: hit.objectID,
+    origin: 'hackernews',
+    title: isComment(hit) ? `Re: ${hit.story_title || 'Hacker News discussion'}` : hit.title || '',
+    content: htmlToText(isComment(hit) ? hit.comment_text : hit.story_text),
+    author: hit.author || 'anonymous',
+    score: hit.points || 0,
+    community: communityOf(hit),
+    url: `${ITEM_BASE_URL}${hit.objectID}`,
+    createdAt: new Date(hit.created_at_i * 1000).toISOString(),
+    numComments: hit.num_comments || 0,
+    comments: hit.comments,
+  }),
+  debugInfo: ({ searchOptions }) => ({
+    timeFilter: resolveSearchOptions(searchOptions).timeFilter,
+    maxItems: MAX_HN_ITEMS,
+  }),
+};
@@ -0,0 +1,232 @@
+import axios from 'axios';
+
+// All Reddit traffic goes through this client:
+//   REDDIT_CLIENT_ID / REDDIT_CLIENT_SECRET  - app-only OAuth via oauth.reddit.com; without them
+//                                              the public .json endpoints are used
+//   REDDIT_USER_AGENT                        - Reddit rejects generic agents
+//   REDDIT_REQUESTS_PER_MINUTE               - token bucket rate (default 90 with OAuth, 20 without)
+// Requests are paced by a token bucket, which is re-tuned from the X-Ratelimit-Remaining and
+// X-Ratelimit-Reset headers so the remaining quota is spread over the rest of the window.
+const DEFAULT_USER_AGENT = 'iValidate/1.0 (Research Tool)';
+const OAUTH_REQUESTS_PER_MINUTE = 90;      // Reddit allows 100 per client id
+const ANONYMOUS_REQUESTS_PER_MINUTE = 20;
+const BURST = 5;
+
+const REQUEST_TIMEOUT_MS = 15000;
+const MAX_ATTEMPTS = 3;
+const MAX_RATE_LIMIT_WAIT_MS = 120000;
+
+// After a failed token request, stay anonymous for a while instead of retrying every call
+const AUTH_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+export type RedditClientMode = 'oauth' | 'anonymous';
+
+// Non-2xx response from Reddit, or a request that never got one
+export class RedditRequestError extends Error {
+  constructor(message: string, public readonly status?: number, public readonly data?: any) {
+    super(message);
+    this.name = 'RedditRequestError';
+  }
+}
+
+interface TokenBucket {
+  tokens: number;
+  capacity: number;
+  refillPerMs: number;
+  lastRefill: number;
+  pausedUntil: number;     // Set when Reddit reports the quota is used up
+}
+
+interface RedditClientState {
+  token?: { value: string; expiresAt: number };
+  authFailedAt?: number;
+  buckets: { [mode in RedditClientMode]?: TokenBucket };
+  queue: Promise<void>;    // Serializes token acquisition so waiters are served in order
+}
+
+// One client per process, kept on globalThis so dev-mode hot reloads share the quota
+const globalForReddit = globalThis as unknown as { redditClient?: RedditClientState };
+
+function getState(): RedditClientState {
+  if (!globalForReddit.redditClient) {
+    globalForReddit.redditClient = { buckets: {}, queue: Promise.resolve() };
+  }
+  return globalForReddit.redditClient;
+}
+
+function getUserAgent(): string {
+  return process.env.REDDIT_USER_AGENT || DEFAULT_USER_AGENT;
+}
+
+function hasCredentials(): boolean {
+  return !!(process.env.REDDIT_CLIENT_ID && process.env.REDDIT_CLIENT_SECRET);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function getBucket(mode: RedditClientMode): TokenBucket {
+  const state = getState();
+  if (!state.buckets[mode]) {
+    const perMinute = parseInt(process.env.REDDIT_REQUESTS_PER_MINUTE || '', 10)
+      || (mode === 'oauth' ? OAUTH_REQUESTS_PER_MINUTE : ANONYMOUS_REQUESTS_PER_MINUTE);
+    state.buckets[mode] = {
+      tokens: BURST,
+      capacity: BURST,
+      refillPerMs: perMinute / 60000,
+      lastRefill: Date.now(),
+      pausedUntil: 0,
+    };
+  }
+  return state.buckets[mode]!;
+}
+
+function refill(bucket: TokenBucket): void {
+  const now = Date.now();
+  bucket.tokens = Math.min(bucket.capacity, bucket.tokens + (now - bucket.lastRefill) * bucket.refillPerMs);
+  bucket.lastRefill = now;
+}
+
+async function takeToken(mode: RedditClientMode): Promise<void> {
+  const bucket = getBucket(mode);
+  for (;;) {
+    const pausedFor = bucket.pausedUntil - Date.now();
+    if (pausedFor > 0) {
+      await sleep(pausedFor);
+      continue;
+    }
+
+    refill(bucket);
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return;
+    }
+    await sleep(Math.ceil((1 - bucket.tokens) / bucket.refillPerMs));
+  }
+}
+
+// Waits for a request slot; callers queue so a burst of searches is paced in order
+function acquire(mode: RedditClientMode): Promise<void> {
+  const state = getState();
+  const turn = state.queue.then(() => takeToken(mode));
+  state.queue = turn.catch(() => undefined);
+  return turn;
+}
+
+// Spreads what is left of Reddit's quota evenly over the rest of its window
+function applyRateLimitHeaders(mode: RedditClientMode, headers: Record<string, unknown>): void {
+  const remaining = parseFloat(String(headers['x-ratelimit-remaining'] ?? ''));
+  const resetSeconds = parseFloat(String(headers['x-ratelimit-reset'] ?? ''));
+  if (!Number.isFinite(remaining) || !Number.isFinite(resetSeconds)) return;
+
+  const bucket = getBucket(mode);
+  const resetMs = Math.max(1000, resetSeconds * 1000);
+  if (remaining < 1) {
+    bucket.pausedUntil = Date.now() + resetMs;
+    bucket.tokens = 0;
+    console.warn(`⏸️ Reddit quota used up, pausing requests for ${Math.ceil(resetMs / 1000)}s`);
+    return;
+  }
+
+  refill(bucket);
+  bucket.refillPerMs = remaining / resetMs;
+  bucket.tokens = Math.min(bucket.tokens, remaining);
+}
+
+async function getAccessToken(): Promise<string | null> {
+  const state = getState();
+  if (state.token && state.token.expiresAt > Date.now()) return state.token.value;
+  if (state.authFailedAt && Date.now() - state.authFailedAt < AUTH_RETRY_DELAY_MS) return null;
+
+  try {
+    const response = await axios.post(
+      'https://www.reddit.com/api/v1/access_token',
+      new URLSearchParams({ grant_type: 'client_credentials' }).toString(),
+      {
+        auth: { username: process.env.REDDIT_CLIENT_ID!, password: process.env.REDDIT_CLIENT_SECRET! },
+        headers: { 'User-Agent': getUserAgent(), 'Content-Type': 'application/x-www-form-urlencoded' },
+        timeout: REQUEST_TIMEOUT_MS,
+      }
+    );
+    const { access_token: value, expires_in: expiresIn } = response.data || {};
+    if (typeof value !== 'string') {
+      throw new Error(response.data?.error || 'No access token in response');
+    }
+
+    // Renew a minute early so a request never goes out with a token about to expire
+    state.token = { value, expiresAt: Date.now() + ((expiresIn || 3600) - 60) * 1000 };
+    state.authFailedAt = undefined;
+    console.log('🔐 Reddit OAuth token acquired');
+    return value;
+  } catch (error) {
+    state.authFailedAt = Date.now();
+    console.error('❌ Reddit OAuth failed, using anonymous access:', error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+export function getRedditClientMode(): RedditClientMode {
+  const state = getState();
+  if (!hasCredentials()) return 'anonymous';
+  if (state.authFailedAt && Date.now() - state.authFailedAt < AUTH_RETRY_DELAY_MS) return 'anonymous';
+  return 'oauth';
+}
+
+function isRetryable(status: number | undefined): boolean {
+  return status === undefined || status === 429 || status >= 500;
+}
+
+// GET a Reddit API path such as "/r/startups/search". Throttled, authenticated when credentials
+// are configured, and retried on 429, 5xx and network errors.
+export async function redditGet<T = any>(path: string, params: Record<string, string | number> = {}): Promise<T> {
+  const cleanPath = path.replace(/\/+$/, '');
+
+  for (let attempt = 1; ; attempt++) {
+    const token = hasCredentials() ? await getAccessToken() : null;
+    const mode: RedditClientMode = token ? 'oauth' : 'anonymous';
+    await acquire(mode);
+
+    try {
+      const response = await axios.get<T>(
+        token ? `https://oauth.reddit.com${cleanPath}` : `https://www.reddit.com${cleanPath}.json`,
+        {
+          params: { ...params, raw_json: 1 }, // Unescaped text, so quotes match what users typed
+          headers: {
+            'User-Agent': getUserAgent(),
+            ...(token && { Authorization: `Bearer ${token}` }),
+          },
+          timeout: REQUEST_TIMEOUT_MS,
+          maxRedirects: 0, // Unknown subreddits redirect to the search page
+        }
+      );
+      applyRateLimitHeaders(mode, response.headers);
+      return response.data;
+    } catch (error) {
+      const response = axios.isAxiosError(error) ? error.response : undefined;
+      if (response) applyRateLimitHeaders(mode, response.headers);
+
+      // A rejected token is dropped so the next attempt fetches a fresh one
+      if (response?.status === 401 && token) {
+        getState().token = undefined;
+      }
+
+      const status = response?.status;
+      const retryable = isRetryable(status) || (status === 401 && !!token);
+      if (!retryable || attempt >= MAX_ATTEMPTS) {
+        throw new RedditRequestError(
+          `Reddit request ${cleanPath} failed${status ? ` (${status})` : ''}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          status,
+          response?.data
+        );
+      }
+
+      const resetSeconds = parseFloat(String(response?.headers?.['x-ratelimit-reset'] ?? ''));
+      const waitMs = status === 429 && Number.isFinite(resetSeconds)
+        ? Math.min(MAX_RATE_LIMIT_WAIT_MS, resetSeconds * 1000)
+        : 1000 * 2 ** attempt;
+      console.log(`⚠️ Reddit request ${cleanPath} failed${status ? ` (${status})` : ''}, retry ${attempt}/${MAX_ATTEMPTS - 1} in ${Math.round(waitMs / 1000)}s`);
+      await sleep(waitMs);
+    }
+  }
+}
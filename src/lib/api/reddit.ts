@@ -1,11 +1,13 @@
-import axios from 'axios';
-import { RedditInsight, RedditPost } from '@/types/validation';
+import { createHash } from 'crypto';
+import { RedditSearchOptions, SubredditCheck, ThreadComment } from '@/types/validation';
 import { saveCache, loadCache } from '../storage/json';
-import { saveRedditSearchDebug } from '../storage/debug-storage';
-import { analyzeRedditContent } from '../ai/content-analyzer';
+import { EvidenceFetchResult, EvidenceQuery, EvidenceQueryResult, EvidenceSource, EvidenceSourceContext, checkSourceCancelled } from './evidence-source';
+import { getRedditClientMode, redditGet } from './reddit-client';
+import { checkSubreddit, normalizeSubredditName } from './subreddit-resolver';
 
 interface RedditApiResponse {
   data: {
+    after: string | null;
     children: Array<{
       data: {
         title: string;
@@ -23,18 +25,65 @@ interface RedditApiResponse {
   };
 }
 
-interface RedditComment {
-  data: {
-    body: string;
-    author: string;
-    ups: number;
-    created_utc: number;
+type RedditSearchPost = RedditApiResponse['data']['children'][number]['data'];
+
+// Raw results of one (subreddit, query, sort, window) search, as stored in data/cache
+interface CachedSearch {
+  pages: number;           // Pages fetched
+  complete: boolean;       // Reddit had no further pages
+  posts: RedditSearchPost[];
+}
+
+interface RedditCommentListing {
+  data?: {
+    children: Array<{
+      kind: string;          // 't1' for comments, 'more' for collapsed stubs
+      data: {
+        id: string;
+        body?: string;
+        author?: string;
+        ups?: number;
+        permalink?: string;
+        replies?: RedditCommentListing | '';
+      };
+    }>;
   };
 }
 
-interface RedditCommentsResponse {
-  data: {
-    children: RedditComment[];
+// Queries run per subreddit (the pipeline's ETA uses this to size the Reddit step)
+export const MAX_SEARCH_QUERIES = 6;
+
+// One page of the most relevant posts from the past year, up to 100 posts in total
+export const DEFAULT_SEARCH_OPTIONS: Required<RedditSearchOptions> = {
+  timeFilter: 'year',
+  sort: 'relevance',
+  maxPages: 1,
+  minScore: 0,
+  maxPosts: 100,
+};
+
+// Raw search results are shared between validations for this long (REDDIT_SEARCH_CACHE_TTL
+// overrides it, in seconds); the AI analysis of them always runs fresh
+const DEFAULT_SEARCH_CACHE_TTL_SECONDS = 6 * 60 * 60;
+
+// Comment threads are crawled for the most discussed posts only, and each crawl is bounded
+const MAX_THREADS_CRAWLED = 15;
+const MIN_COMMENTS_TO_CRAWL = 3;
+const MAX_COMMENT_DEPTH = 4;
+const MAX_COMMENTS_PER_THREAD = 40;
+
+// Upper bounds so a request can't turn one validation into thousands of Reddit calls
+const MAX_PAGES_LIMIT = 10;
+const MAX_POSTS_LIMIT = 1000;
+
+const SEARCH_PAGE_SIZE = 15;
+
+export function resolveSearchOptions(options: RedditSearchOptions = {}): Required<RedditSearchOptions> {
+  const merged = { ...DEFAULT_SEARCH_OPTIONS, ...options };
+  return {
+    ...merged,
+    maxPages: Math.min(MAX_PAGES_LIMIT, Math.max(1, Math.floor(merged.maxPages))),
+    maxPosts: Math.min(MAX_POSTS_LIMIT, Math.max(1, Math.floor(merged.maxPosts))),
   };
 }
 
@@ -71,266 +120,125 @@ const PROBLEM_INDICATORS = [
   'sick of', 'fed up', 'tired of', 'problem with', 'issue with'
 ];
 
-export async function searchRedditDiscussions(
-  keywords: string[], 
-  idea?: string,
-  aiOptions?: {
-    targetSubreddits?: string[];
-    focusQueries?: string[];
-    painPointQueries?: string[];
-    refinedIdeaData?: {
-      oneLiner: string;
-      targetAudience: string;
-      problem: string;
-    };
-  }
-): Promise<RedditInsight> {
-  const fullIdea = idea || keywords.join(' ');
-  const shortIdea = fullIdea.substring(0, 100); // Limit to 100 chars for cache key
-  const cacheKey = `reddit_real_${shortIdea.toLowerCase().replace(/\s+/g, '_').replace(/[^a-z0-9_]/g, '')}`;
-  
-  // Create unique validation ID for debug logging (extract from idea if possible)
-  const validationId = fullIdea.replace(/\W+/g, '_').substring(0, 20) + '_' + Date.now();
-  
-  // Caching disabled for fresh data on each validation
-  // const cached = await loadCache(cacheKey);
-  // if (cached) {
-  //   console.log('🎯 Using cached Reddit data');
-  //   return cached;
-  // }
-
-  console.log('🔍 Starting REAL Reddit analysis for:', fullIdea);
-  
-  // Initialize debug tracking
-  const searchResults: { subreddit: string; query: string; postsFound: number; error?: string; }[] = [];
-  
-  // Initialize variables outside try block so they're available in catch
-  const subreddits = aiOptions?.targetSubreddits || getTargetSubreddits(fullIdea);
-  let searchQueries: string[] = [];
-
-  try {
-    // Collect all posts for AI analysis instead of filtering by keywords
-    const allPosts: Array<{
-      title: string;
-      content: string;
-      author: string;
-      upvotes: number;
-      subreddit: string;
-      url: string;
-      timestamp: string;
-      comments?: Array<{
-        body: string;
-        author: string;
-        ups: number;
-      }>;
-    }> = [];
+type CrawledPost = RedditSearchPost & { comments?: ThreadComment[] };
 
-    console.log('📍 Searching subreddits:', subreddits);
+// Reddit as an evidence source: the keyword step's focus and pain-point queries, run in each
+// of the subreddits it recommended
+export const redditEvidenceSource: EvidenceSource<CrawledPost> = {
+  id: 'reddit',
+  label: 'Reddit',
+  planQueries: ({ idea, keywords, recommendedSubreddits, focusQueries, painPointQueries }) => {
+    const subreddits = recommendedSubreddits.length > 0
+      ? recommendedSubreddits.map(subreddit => subreddit.name)
+      : getTargetSubreddits(idea);
 
     // Generate search queries (AI-powered if available)
-    if (aiOptions?.focusQueries && aiOptions?.painPointQueries) {
-      searchQueries = [...aiOptions.focusQueries, ...aiOptions.painPointQueries].slice(0, 6);
+    let searchQueries: string[];
+    if (focusQueries.length > 0 && painPointQueries.length > 0) {
+      searchQueries = [...focusQueries, ...painPointQueries].slice(0, MAX_SEARCH_QUERIES);
       console.log('🎯 Using AI-generated queries:', searchQueries);
     } else {
-      searchQueries = generateProblemQueries(keywords, fullIdea);
+      searchQueries = generateProblemQueries(keywords, idea);
       console.log('🔎 Using manual search queries:', searchQueries);
     }
 
-    let totalPosts = 0;
-    let postsAnalyzed = 0;
-
-    // Search each subreddit for each query
-    for (const subreddit of subreddits) {
-      for (const query of searchQueries) {
-        try {
-          console.log(`📡 Searching r/${subreddit} for "${query}"`);
-          
-          const posts = await searchSubreddit(subreddit, query);
-          totalPosts += posts.length;
-          
-          // Log search result for debugging
-          searchResults.push({
-            subreddit,
-            query,
-            postsFound: posts.length
-          });
-
-          // Collect all posts for AI analysis (no keyword filtering)
-          for (const post of posts) {
-            postsAnalyzed++;
-            
-            // Add post to collection for AI analysis
-            const postData = {
-              title: post.title || '',
-              content: post.selftext || '',
-              author: post.author || 'anonymous',
-              upvotes: post.ups || 0,
-              subreddit,
-              url: `https://reddit.com${post.permalink}`,
-              timestamp: new Date(post.created_utc * 1000).toISOString(),
-              comments: undefined as Array<{body: string; author: string; ups: number}> | undefined
-            };
-
-            // Get top comments for posts with engagement (but limit to prevent overload)
-            if (post.num_comments > 5 && allPosts.length < 50) {
-              try {
-                const comments = await getPostComments(post.permalink);
-                postData.comments = comments.slice(0, 5).map(comment => ({
-                  body: comment.body || '',
-                  author: comment.author || 'anonymous',
-                  ups: comment.ups || 0
-                }));
-              } catch (error) {
-                console.log('Failed to get comments for post');
-              }
-            }
-
-            allPosts.push(postData);
-
-            // Limit to prevent overwhelming AI context
-            if (allPosts.length >= 100) break;
-          }
-
-          // Rate limiting
-          await sleep(1500);
-
-        } catch (error) {
-          console.warn(`Failed to search r/${subreddit} for "${query}"`, error);
-          
-          // Log search error for debugging
-          searchResults.push({
-            subreddit,
-            query,
-            postsFound: 0,
-            error: error instanceof Error ? error.message : 'Unknown error'
-          });
-          
-          continue;
-        }
-
-        if (allPosts.length >= 100) break;
-      }
-      if (allPosts.length >= 100) break;
-    }
+    return subreddits.flatMap(community => searchQueries.map(query => ({ community, query })));
+  },
+  fetchItems: searchRedditPosts,
+  normalize: post => ({
+    id: post.permalink,
+    origin: 'reddit',
+    title: post.title || '',
+    content: post.selftext || '',
+    author: post.author || 'anonymous',
+    score: post.ups || 0,
+    community: post.subreddit,
+    url: `https://reddit.com${post.permalink}`,
+    createdAt: new Date(post.created_utc * 1000).toISOString(),
+    numComments: post.num_comments || 0,
+    comments: post.comments,
+  }),
+  debugInfo: ({ recommendedSubreddits, searchOptions }) => ({
+    clientMode: getRedditClientMode(),
+    searchOptions: resolveSearchOptions(searchOptions),
+    targetSubreddits: recommendedSubreddits.map(subreddit => subreddit.name),
+  }),
+};
 
-    console.log(`✅ Collected ${allPosts.length} posts from ${postsAnalyzed} total posts for AI analysis`);
+async function searchRedditPosts(queries: EvidenceQuery[], context: EvidenceSourceContext): Promise<EvidenceFetchResult<CrawledPost>> {
+  const searchOptions = resolveSearchOptions(context.searchOptions);
+  const results: EvidenceQueryResult[] = [];
+  const posts: CrawledPost[] = [];
+
+  // The same post often matches several queries
+  const seenPosts = new Set<string>();
+  let postsSeen = 0;
+
+  // Every community is searched with several queries; check each one only once per run
+  const subredditChecks = new Map<string, Promise<SubredditCheck>>();
+  const checkOnce = (subreddit: string): Promise<SubredditCheck> => {
+    const key = normalizeSubredditName(subreddit).toLowerCase();
+    if (!subredditChecks.has(key)) subredditChecks.set(key, checkSubreddit(subreddit));
+    return subredditChecks.get(key)!;
+  };
 
-    // Use AI to analyze all content - NO FALLBACKS
-    if (!aiOptions?.refinedIdeaData) {
-      throw new Error('Refined idea data required for AI content analysis');
-    }
+  console.log('📍 Running', queries.length, 'Reddit searches with', searchOptions);
 
-    console.log('🤖 Using AI to analyze Reddit content...');
-    
-    const aiAnalysis = await analyzeRedditContent(allPosts, aiOptions.refinedIdeaData);
-    
-    // Convert AI analysis to the expected format
-    const problemMentions = aiAnalysis.relevantQuotes.map(quote => ({
-      quote: quote.quote,
-      author: quote.author,
-      subreddit: quote.subreddit,
-      upvotes: quote.upvotes,
-      url: quote.url,
-      sentiment: quote.sentiment,
-      timestamp: new Date().toISOString()
-    }));
-    
-    // Calculate sentiment distribution from AI analysis
-    console.log('🔍 AI quotes sentiments:', aiAnalysis.relevantQuotes.map(q => q.sentiment));
-    const sentimentCounts = {
-      frustrated: aiAnalysis.relevantQuotes.filter(q => q.sentiment === 'frustrated').length,
-      neutral: aiAnalysis.relevantQuotes.filter(q => q.sentiment === 'neutral').length,
-      satisfied: aiAnalysis.relevantQuotes.filter(q => q.sentiment === 'satisfied').length
-    };
-    console.log('📊 Sentiment counts:', sentimentCounts);
-    
-    console.log(`🎯 AI found ${problemMentions.length} relevant quotes from ${aiAnalysis.totalRelevantPosts} relevant posts`);
+  for (const { community, query } of queries) {
+    if (!community) continue;
+    if (posts.length >= searchOptions.maxPosts) break;
 
-    // Calculate metrics using AI-derived data
-    const score = calculateRealRedditScore(problemMentions, sentimentCounts);
-    
-    // Use AI-identified pain points
-    const painPoints = aiAnalysis.painPoints;
-
-    const insight: RedditInsight = {
-      posts: problemMentions.slice(0, 20).map(mention => ({
-        title: `"${mention.quote.substring(0, 100)}..."`,
-        content: mention.quote,
-        subreddit: mention.subreddit,
-        upvotes: mention.upvotes,
-        comments: 0,
-        sentiment: mention.sentiment === 'frustrated' ? 3 : mention.sentiment === 'satisfied' ? 8 : 5,
-        url: mention.url,
-        createdAt: mention.timestamp
-      })),
-      sentiment: calculateAverageSentiment(sentimentCounts),
-      painPoints,
-      discussionVolume: problemMentions.length,
-      engagementLevel: problemMentions.reduce((sum, m) => sum + m.upvotes, 0) / Math.max(1, problemMentions.length),
-      score,
-      realData: {
-        totalMentions: problemMentions.length,
-        frustratedUsers: sentimentCounts.frustrated,
-        neutralUsers: sentimentCounts.neutral,
-        satisfiedUsers: sentimentCounts.satisfied,
-        totalRelevantPosts: aiAnalysis.totalRelevantPosts,
-        overallSentiment: aiAnalysis.overallSentiment,
-        frustrationLevel: aiAnalysis.frustrationLevel,
-        keyInsights: aiAnalysis.keyInsights,
-        topQuotes: problemMentions
-          .sort((a, b) => b.upvotes - a.upvotes)
-          .slice(0, 10)
-          .map(m => ({
-            quote: m.quote,
-            author: m.author,
-            subreddit: m.subreddit,
-            upvotes: m.upvotes,
-            sentiment: m.sentiment
-          }))
-      }
-    };
-
-    // Save debug data for Reddit search with AI analysis
-    await saveRedditSearchDebug(validationId, {
-      inputKeywords: keywords,
-      targetSubreddits: subreddits,
-      searchQueries,
-      searchResults,
-      totalMentions: problemMentions.length,
-      frustratedUsers: sentimentCounts.frustrated,
-      success: true,
-      aiAnalysis: {
-        totalPostsAnalyzed: allPosts.length,
-        relevantQuotesFound: aiAnalysis.relevantQuotes.length,
-        overallSentiment: aiAnalysis.overallSentiment,
-        frustrationLevel: aiAnalysis.frustrationLevel,
-        keyInsights: aiAnalysis.keyInsights
+    // Stop spending Reddit quota as soon as the user cancels
+    await checkSourceCancelled(context, results);
+
+    try {
+      console.log(`📡 Searching r/${community} for "${query}"`);
+      const { posts: found, cached } = await searchSubreddit(community, query, searchOptions, checkOnce);
+      results.push({ community, query, found: found.length, cached });
+
+      for (const post of found) {
+        postsSeen++;
+        if (seenPosts.has(post.permalink) || (post.score ?? post.ups ?? 0) < searchOptions.minScore) continue;
+        seenPosts.add(post.permalink);
+        posts.push(post);
+
+        // Limit to prevent overwhelming AI context
+        if (posts.length >= searchOptions.maxPosts) break;
       }
-    });
-    
-    // Caching disabled for fresh data on each validation
-    // await saveCache(cacheKey, insight, 7200);
-    
-    return insight;
+    } catch (error) {
+      console.warn(`Failed to search r/${community} for "${query}"`, error);
+      results.push({ community, query, found: 0, error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }
 
-  } catch (error) {
-    console.error('AI Reddit analysis failed:', error);
-    
-    // Save debug data for failed Reddit search
-    await saveRedditSearchDebug(validationId, {
-      inputKeywords: keywords,
-      targetSubreddits: subreddits,
-      searchQueries: searchQueries,
-      searchResults,
-      totalMentions: 0,
-      frustratedUsers: 0,
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error'
-    });
-    
-    // NO FALLBACK - throw the error so validation fails
-    throw new Error(`Reddit analysis failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  console.log(`✅ Collected ${posts.length} Reddit posts from ${postsSeen} search results`);
+
+  // Much of the real pain is in nested replies, so crawl whole threads of the busiest posts
+  const threadsToCrawl = posts
+    .filter(post => (post.num_comments || 0) >= MIN_COMMENTS_TO_CRAWL)
+    .sort((a, b) => (b.num_comments || 0) - (a.num_comments || 0))
+    .slice(0, MAX_THREADS_CRAWLED);
+  for (const post of threadsToCrawl) {
+    await checkSourceCancelled(context, results);
+    try {
+      post.comments = await getCommentThread(post.permalink);
+    } catch (error) {
+      console.log(`Failed to crawl comments for ${post.permalink}:`, error instanceof Error ? error.message : error);
+    }
   }
+  console.log(`💬 Crawled ${threadsToCrawl.length} comment threads`);
+
+  return { items: posts, queries: results };
+}
+
+// Curated communities matching the idea's industry, then the core business ones; used to
+// replace recommended subreddits that turn out not to exist or be searchable
+export function getSubstituteSubreddits(idea: string): string[] {
+  const text = idea.toLowerCase();
+  const industry = Object.entries(INDUSTRY_SUBREDDITS)
+    .filter(([keyword]) => text.includes(keyword))
+    .flatMap(([, subreddits]) => subreddits);
+  return [...new Set([...industry, ...CORE_SUBREDDITS])];
 }
 
 function getTargetSubreddits(idea: string): string[] {
@@ -357,68 +265,112 @@ function generateProblemQueries(keywords: string[], idea: string): string[] {
   return queries.slice(0, 4);
 }
 
-async function searchSubreddit(subreddit: string, query: string): Promise<any[]> {
-  const searchUrl = `https://www.reddit.com/r/${subreddit}/search.json`;
-  
-  // First validate subreddit exists - NO FALLBACKS
-  try {
-    const subredditCheckUrl = `https://www.reddit.com/r/${subreddit}/about.json`;
-    await axios.get(subredditCheckUrl, {
-      headers: { 'User-Agent': 'iValidate/1.0 (Research Tool)' },
-      timeout: 5000
-    });
-  } catch (error) {
-    console.warn(`❌ Subreddit r/${subreddit} doesn't exist or is private - FAILING (no fallbacks)`);
+function searchCacheKey(subreddit: string, query: string, options: Required<RedditSearchOptions>): string {
+  const name = subreddit.toLowerCase();
+  const hash = createHash('sha256')
+    .update(JSON.stringify([name, query.trim().toLowerCase(), options.sort, options.timeFilter]))
+    .digest('hex')
+    .substring(0, 24);
+  return `reddit_search_${name.replace(/[^a-z0-9_]/g, '')}_${hash}`;
+}
+
+function getSearchCacheTTLSeconds(): number {
+  return parseInt(process.env.REDDIT_SEARCH_CACHE_TTL || '', 10) || DEFAULT_SEARCH_CACHE_TTL_SECONDS;
+}
+
+// Only the fields the analysis reads are cached
+function toCachedPost(post: RedditSearchPost): RedditSearchPost {
+  const { title, selftext, subreddit, ups, num_comments, url, created_utc, score, author, permalink } = post;
+  return { title, selftext, subreddit, ups, num_comments, url, created_utc, score, author, permalink };
+}
+
+// Searches one subreddit, reusing a cached result for the same query, sort and window when it
+// covers at least as many pages as requested
+async function searchSubreddit(
+  subreddit: string,
+  query: string,
+  options: Required<RedditSearchOptions>,
+  check: (subreddit: string) => Promise<SubredditCheck>
+): Promise<{ posts: RedditSearchPost[]; cached: boolean }> {
+  const cacheKey = searchCacheKey(subreddit, query, options);
+  const cached: CachedSearch | null = await loadCache(cacheKey);
+  if (cached && (cached.complete || cached.pages >= options.maxPages)) {
+    console.log(`🎯 Using cached results for r/${subreddit} "${query}"`);
+    return { posts: cached.posts.slice(0, options.maxPages * SEARCH_PAGE_SIZE), cached: true };
+  }
+
+  // Step 1 already checked the subreddit; this reads the cached result - NO FALLBACKS
+  const { status } = await check(subreddit);
+  if (status !== 'ok' && status !== 'error') {
+    console.warn(`❌ Subreddit r/${subreddit} is ${status} - FAILING (no fallbacks)`);
     throw new Error(`Subreddit r/${subreddit} is invalid or inaccessible`);
   }
 
-  // Attempt search with retries but NO fallback data
-  let retries = 3;
-  while (retries > 0) {
-    try {
-      const response = await axios.get<RedditApiResponse>(searchUrl, {
-        params: {
-          q: query,
-          sort: 'relevance',
-          limit: 15, // Increased for better data
-          t: 'year',
-          restrict_sr: 'on'
-        },
-        headers: {
-          'User-Agent': 'iValidate/1.0 (Research Tool)'
-        },
-        timeout: 15000 // Increased timeout for real requests
+  // The Reddit client paces and retries requests; a failure here is final
+  try {
+    const posts: RedditSearchPost[] = [];
+    let after: string | null = null;
+    let pages = 0;
+
+    while (pages < options.maxPages) {
+      const response: RedditApiResponse = await redditGet<RedditApiResponse>(`/r/${subreddit}/search`, {
+        q: query,
+        sort: options.sort,
+        limit: SEARCH_PAGE_SIZE,
+        t: options.timeFilter,
+        restrict_sr: 'on',
+        ...(after && { after })
       });
 
-      return response.data?.data?.children?.map(child => child.data) || [];
-    } catch (error) {
-      retries--;
-      if (retries > 0) {
-        console.log(`⚠️ Retry ${4 - retries} for r/${subreddit} search: ${query}`);
-        await sleep(3000); // Longer wait to avoid rate limits
-      } else {
-        console.error(`❌ Failed to search r/${subreddit} after 3 attempts - FAILING (no fallbacks)`);
-        throw new Error(`Reddit search failed for r/${subreddit} after multiple attempts`);
-      }
+      posts.push(...(response?.data?.children?.map(child => toCachedPost(child.data)) || []));
+      pages++;
+      after = response?.data?.after ?? null;
+      if (!after) break;
     }
+
+    const entry: CachedSearch = { pages, complete: !after, posts };
+    await saveCache(cacheKey, entry, getSearchCacheTTLSeconds());
+    return { posts, cached: false };
+  } catch (error) {
+    console.error(`❌ Failed to search r/${subreddit} - FAILING (no fallbacks)`, error instanceof Error ? error.message : error);
+    throw new Error(`Reddit search failed for r/${subreddit} after multiple attempts`);
   }
-  
-  throw new Error(`Reddit search exhausted retries for r/${subreddit}`);
 }
 
-async function getPostComments(permalink: string): Promise<any[]> {
-  const commentsUrl = `https://www.reddit.com${permalink}.json`;
-  
-  const response = await axios.get(commentsUrl, {
-    params: { limit: 10 },
-    headers: {
-      'User-Agent': 'iValidate/1.0 (Research Tool)'
-    },
-    timeout: 5000
+// Top comments of a post with their replies, down to MAX_COMMENT_DEPTH and at most
+// MAX_COMMENTS_PER_THREAD in total. Collapsed "more" stubs are not expanded.
+async function getCommentThread(permalink: string): Promise<ThreadComment[]> {
+  const response = await redditGet<[unknown, RedditCommentListing]>(permalink, {
+    limit: MAX_COMMENTS_PER_THREAD,
+    depth: MAX_COMMENT_DEPTH + 1,
+    sort: 'top'
   });
 
-  const commentsSection = response.data[1];
-  return commentsSection?.data?.children?.map((child: RedditComment) => child.data) || [];
+  return parseCommentListing(response[1], 0, { remaining: MAX_COMMENTS_PER_THREAD });
+}
+
+function parseCommentListing(listing: RedditCommentListing | '' | undefined, depth: number, budget: { remaining: number }): ThreadComment[] {
+  const comments: ThreadComment[] = [];
+  if (!listing) return comments;
+
+  for (const child of listing.data?.children || []) {
+    if (budget.remaining <= 0) break;
+    const { body, permalink } = child.data;
+    if (child.kind !== 't1' || !body || body === '[deleted]' || body === '[removed]') continue;
+
+    budget.remaining--;
+    comments.push({
+      id: child.data.id,
+      author: child.data.author || 'anonymous',
+      body,
+      ups: child.data.ups || 0,
+      permalink: `https://reddit.com${permalink}`,
+      depth,
+      replies: depth < MAX_COMMENT_DEPTH ? parseCommentListing(child.data.replies, depth + 1, budget) : [],
+    });
+  }
+
+  return comments;
 }
 
 function extractProblemQuotes(
@@ -508,24 +460,6 @@ function analyzeSentiment(text: string): 'frustrated' | 'neutral' | 'satisfied'
   return 'neutral';
 }
 
-function calculateRealRedditScore(mentions: any[], sentimentCounts: { frustrated: number; neutral: number; satisfied: number }): number {
-  const totalMentions = mentions.length;
-  
-  if (totalMentions === 0) return 20;
-  
-  // Volume score (0-30 points)
-  const volumeScore = Math.min(totalMentions * 0.6, 30);
-  
-  // Problem intensity score (0-40 points) - more frustrated users = more opportunity
-  const problemIntensity = (sentimentCounts.frustrated / totalMentions) * 40;
-  
-  // Engagement score (0-30 points)
-  const avgUpvotes = mentions.reduce((sum, m) => sum + m.upvotes, 0) / totalMentions;
-  const engagementScore = Math.min(avgUpvotes * 2, 30);
-  
-  return Math.round(volumeScore + problemIntensity + engagementScore);
-}
-
 function extractRealPainPoints(mentions: any[]): string[] {
   const painPointMap = new Map<string, number>();
   
@@ -557,16 +491,3 @@ function extractRealPainPoints(mentions: any[]): string[] {
     .slice(0, 5)
     .map(([painPoint, count]) => `${painPoint} (${count} mentions)`);
 }
-
-function calculateAverageSentiment(sentimentCounts: { frustrated: number; neutral: number; satisfied: number }): number {
-  const total = sentimentCounts.frustrated + sentimentCounts.neutral + sentimentCounts.satisfied;
-  
-  if (total === 0) return 5;
-  
-  const weightedSum = (sentimentCounts.frustrated * 3) + (sentimentCounts.neutral * 5) + (sentimentCounts.satisfied * 8);
-  return Math.round(weightedSum / total);
-}
-
-function sleep(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
-}
\ No newline at end of file
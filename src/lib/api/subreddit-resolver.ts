@@ -0,0 +1,161 @@
+import { RecommendedSubreddit, SubredditCheck } from '@/types/validation';
+import { saveCache, loadCache } from '../storage/json';
+import { redditGet, RedditRequestError } from './reddit-client';
+
+// Communities below these are not worth a search request
+const MIN_SUBSCRIBERS = 5000;
+const MAX_DAYS_SINCE_LAST_POST = 30;
+
+// Below this many usable picks, substitutes from the curated lists are added
+const MIN_USABLE_SUBREDDITS = 3;
+
+// Subreddit metadata changes slowly; failed lookups are kept briefly so an outage isn't
+// retried for every query, but doesn't stick to the subreddit either
+const CACHE_TTL_SECONDS = 24 * 60 * 60;
+const ERROR_CACHE_TTL_SECONDS = 5 * 60;
+
+export interface SubredditResolution {
+  accepted: RecommendedSubreddit[];
+  rejected: SubredditCheck[];
+  substituted: string[];       // Names added in place of rejected picks
+}
+
+function cacheKey(name: string): string {
+  return `subreddit_${name.toLowerCase()}`;
+}
+
+// "r/Entrepreneur", "/r/entrepreneur/" and "entrepreneur" all name the same community
+export function normalizeSubredditName(name: string): string {
+  return name.trim().replace(/^\/?r\//i, '').replace(/\/+$/, '');
+}
+
+async function fetchNewestPostTime(name: string): Promise<string | undefined> {
+  const response = await redditGet(`/r/${name}/new`, { limit: 1 });
+  const created = response?.data?.children?.[0]?.data?.created_utc;
+  return typeof created === 'number' ? new Date(created * 1000).toISOString() : undefined;
+}
+
+async function fetchSubredditCheck(name: string): Promise<SubredditCheck> {
+  const checkedAt = new Date().toISOString();
+
+  let about;
+  try {
+    const response = await redditGet(`/r/${name}/about`);
+    if (response?.kind !== 't5') {
+      return { name, status: 'not_found', checkedAt };
+    }
+    about = response.data;
+  } catch (error) {
+    const { status, data } = error instanceof RedditRequestError ? error : { status: undefined, data: undefined };
+    // Unknown names 404 or redirect to the search page
+    if (status === 404 || (status !== undefined && status >= 300 && status < 400)) {
+      return { name, status: data?.reason === 'banned' ? 'banned' : 'not_found', checkedAt };
+    }
+    if (status === 403) {
+      return { name, status: data?.reason === 'quarantined' ? 'quarantined' : 'private', checkedAt };
+    }
+    return { name, status: 'error', error: error instanceof Error ? error.message : 'Unknown error', checkedAt };
+  }
+
+  const check: SubredditCheck = {
+    name: about.display_name || name,
+    status: 'ok',
+    subscribers: about.subscribers ?? 0,
+    activeUsers: about.accounts_active ?? about.active_user_count ?? undefined,
+    over18: !!about.over18,
+    quarantined: !!about.quarantine,
+    subredditType: about.subreddit_type,
+    checkedAt,
+  };
+
+  if (check.quarantined) check.status = 'quarantined';
+  else if (check.over18) check.status = 'nsfw';
+  else if (check.subredditType === 'private') check.status = 'private';
+  else if ((check.subscribers ?? 0) < MIN_SUBSCRIBERS) check.status = 'too_small';
+
+  if (check.status === 'ok') {
+    try {
+      check.lastPostAt = await fetchNewestPostTime(check.name);
+      const idleDays = check.lastPostAt ? (Date.now() - new Date(check.lastPostAt).getTime()) / 86400000 : Infinity;
+      if (idleDays > MAX_DAYS_SINCE_LAST_POST) check.status = 'inactive';
+    } catch (error) {
+      // The community exists; an unknown activity level is not a reason to skip it
+      console.warn(`⚠️ Could not read recent posts for r/${check.name}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  return check;
+}
+
+// Existence, size, NSFW/quarantine status and recent activity of one subreddit
+export async function checkSubreddit(rawName: string): Promise<SubredditCheck> {
+  const name = normalizeSubredditName(rawName);
+  const cached: SubredditCheck | null = await loadCache(cacheKey(name));
+  if (cached) return cached;
+
+  const check = await fetchSubredditCheck(name);
+  await saveCache(cacheKey(name), check, check.status === 'error' ? ERROR_CACHE_TTL_SECONDS : CACHE_TTL_SECONDS);
+  return check;
+}
+
+function formatMemberCount(subscribers: number): string {
+  if (subscribers >= 1_000_000) return `${(subscribers / 1_000_000).toFixed(1)}M`;
+  if (subscribers >= 1_000) return `${Math.round(subscribers / 1_000)}K`;
+  return String(subscribers);
+}
+
+function toRecommended(check: SubredditCheck, pick?: RecommendedSubreddit): RecommendedSubreddit {
+  return {
+    ...pick,
+    name: check.name,
+    memberCount: formatMemberCount(check.subscribers ?? 0),
+    subscribers: check.subscribers,
+    lastPostAt: check.lastPostAt,
+    verified: true,
+  };
+}
+
+// Checks the model's picks against Reddit, dropping ones that don't exist or can't be searched
+// usefully, and tops the list up from the substitutes when too few are left. A lookup that
+// fails outright keeps the pick, since Reddit being unreachable says nothing about it.
+export async function resolveSubreddits(
+  picks: RecommendedSubreddit[],
+  substitutes: string[] = []
+): Promise<SubredditResolution> {
+  const accepted: RecommendedSubreddit[] = [];
+  const rejected: SubredditCheck[] = [];
+  const substituted: string[] = [];
+  const seen = new Set<string>();
+
+  for (const pick of picks) {
+    const name = normalizeSubredditName(pick.name);
+    if (!name || seen.has(name.toLowerCase())) continue;
+    seen.add(name.toLowerCase());
+
+    const check = await checkSubreddit(name);
+    if (check.status === 'ok') {
+      accepted.push(toRecommended(check, pick));
+    } else if (check.status === 'error') {
+      console.warn(`⚠️ Could not check r/${name}, keeping it: ${check.error}`);
+      accepted.push({ ...pick, name, verified: false });
+    } else {
+      console.log(`🚫 Skipping r/${name}: ${check.status}`);
+      rejected.push(check);
+    }
+  }
+
+  for (const substitute of substitutes) {
+    if (accepted.length >= MIN_USABLE_SUBREDDITS) break;
+    if (seen.has(substitute.toLowerCase())) continue;
+    seen.add(substitute.toLowerCase());
+
+    const check = await checkSubreddit(substitute);
+    if (check.status === 'ok') {
+      console.log(`🔁 Substituting r/${check.name} for rejected picks`);
+      accepted.push(toRecommended(check, { name: check.name, reason: 'Substituted for a recommended subreddit that failed validation' }));
+      substituted.push(check.name);
+    }
+  }
+
+  return { accepted, rejected, substituted };
+}
@@ -0,0 +1,35 @@
+import { loadValidation } from '@/lib/storage/json';
+
+// Thrown from inside the pipeline once the user has cancelled the validation
+export class ValidationCancelledError extends Error {
+  constructor(validationId: string) {
+    super(`Validation ${validationId} was cancelled`);
+    this.name = 'ValidationCancelledError';
+  }
+}
+
+// Why a worker stops a validation that nobody cancelled
+export type StopReason = 'claim_lost' | 'time_slice';
+
+// Thrown from inside the pipeline once the worker running it has to stop, e.g. because another
+// worker took over the job or its time slice ran out. It extends the cancellation error so everything that lets a cancel
+// through (source collection, step bookkeeping) lets this through too.
+export class ValidationStoppedError extends ValidationCancelledError {
+  constructor(validationId: string, public readonly reason: StopReason) {
+    super(validationId);
+    this.message = `Worker stopped running validation ${validationId}: ${reason.replace('_', ' ')}`;
+    this.name = 'ValidationStoppedError';
+  }
+}
+
+// The cancel endpoint flips the record to CANCELLED; running work polls it at safe points
+export async function isValidationCancelled(validationId: string): Promise<boolean> {
+  const validation = await loadValidation(validationId);
+  return validation?.status === 'CANCELLED';
+}
+
+export async function throwIfCancelled(validationId: string): Promise<void> {
+  if (await isValidationCancelled(validationId)) {
+    throw new ValidationCancelledError(validationId);
+  }
+}
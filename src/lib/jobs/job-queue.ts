@@ -0,0 +1,302 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { ValidationJob } from '@/types/api';
+
+const DATA_DIR = path.join(process.cwd(), 'data');
+const JOBS_DIR = path.join(DATA_DIR, 'jobs');
+
+// A PROCESSING job whose worker hasn't heartbeated within this window is considered orphaned
+export const JOB_STALE_AFTER_MS = 60 * 1000;
+const LOCK_STALE_AFTER_MS = 30 * 1000;
+// A job still unfinished after this many time slices is failed rather than handed back again
+const MAX_JOB_RELEASES = 20;
+
+// Ensure jobs directory exists
+async function ensureJobsDir() {
+  try {
+    await fs.mkdir(JOBS_DIR, { recursive: true });
+  } catch (error) {
+    console.error('Error creating jobs directory:', error);
+  }
+}
+
+function jobPath(jobId: string): string {
+  return path.join(JOBS_DIR, `${jobId}.json`);
+}
+
+function lockPath(jobId: string): string {
+  return path.join(JOBS_DIR, `${jobId}.lock`);
+}
+
+// Save job using atomic writes (same approach as validation storage)
+async function saveJob(job: ValidationJob): Promise<void> {
+  await ensureJobsDir();
+  const filePath = jobPath(job.id);
+  const tempFilePath = `${filePath}.tmp`;
+
+  try {
+    await fs.writeFile(tempFilePath, JSON.stringify(job, null, 2));
+    await fs.rename(tempFilePath, filePath);
+  } catch (error) {
+    try {
+      await fs.unlink(tempFilePath);
+    } catch {
+      // Ignore cleanup errors
+    }
+
+    console.error('Error saving job:', error);
+    throw new Error('Failed to save job data');
+  }
+}
+
+export async function loadJob(jobId: string): Promise<ValidationJob | null> {
+  try {
+    const data = await fs.readFile(jobPath(jobId), 'utf-8');
+    return JSON.parse(data) as ValidationJob;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    console.error(`Error loading job ${jobId}:`, error);
+    return null;
+  }
+}
+
+export async function listJobs(): Promise<ValidationJob[]> {
+  await ensureJobsDir();
+
+  try {
+    const files = await fs.readdir(JOBS_DIR);
+    const jobs = await Promise.all(
+      files
+        .filter(file => file.endsWith('.json'))
+        .map(file => loadJob(file.replace('.json', '')))
+    );
+    return jobs.filter((job): job is ValidationJob => job !== null);
+  } catch (error) {
+    console.error('Error listing jobs:', error);
+    return [];
+  }
+}
+
+export async function findJobByValidationId(validationId: string): Promise<ValidationJob | null> {
+  const jobs = await listJobs();
+  return jobs
+    .filter(job => job.validationId === validationId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0] || null;
+}
+
+// Add a new job to the persisted queue
+export async function enqueueJob(
+  validationId: string,
+  type: ValidationJob['type'],
+  data: any,
+  options: { priority?: number; maxAttempts?: number } = {}
+): Promise<ValidationJob> {
+  const job: ValidationJob = {
+    id: `job_${uuidv4()}`,
+    validationId,
+    type,
+    status: 'PENDING',
+    data,
+    priority: options.priority ?? 0,
+    attempts: 0,
+    maxAttempts: options.maxAttempts ?? 3,
+    createdAt: new Date().toISOString(),
+  };
+
+  await saveJob(job);
+  console.log(`📥 Enqueued ${type} job ${job.id} for validation ${validationId}`);
+  return job;
+}
+
+// Run a mutation while holding an exclusive lock file, so two workers can't claim the same job
+async function withJobLock<T>(jobId: string, fn: () => Promise<T>): Promise<T | null> {
+  let handle;
+  try {
+    handle = await fs.open(lockPath(jobId), 'wx');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+      throw error;
+    }
+
+    // Clear locks left behind by a crashed process, otherwise another worker holds it
+    const stat = await fs.stat(lockPath(jobId)).catch(() => null);
+    if (!stat || Date.now() - stat.mtimeMs < LOCK_STALE_AFTER_MS) {
+      return null;
+    }
+    await fs.unlink(lockPath(jobId)).catch(() => {});
+    return withJobLock(jobId, fn);
+  }
+
+  try {
+    return await fn();
+  } finally {
+    await handle.close();
+    await fs.unlink(lockPath(jobId)).catch(() => {});
+  }
+}
+
+// Claim the highest-priority runnable job for this worker
+export async function claimNextJob(workerId: string): Promise<ValidationJob | null> {
+  const now = Date.now();
+  const candidates = (await listJobs())
+    .filter(job => job.status === 'PENDING')
+    .filter(job => !job.runAfter || new Date(job.runAfter).getTime() <= now)
+    .sort((a, b) => b.priority - a.priority || a.createdAt.localeCompare(b.createdAt));
+
+  for (const candidate of candidates) {
+    const claimed = await withJobLock(candidate.id, async () => {
+      // Re-read under the lock in case another worker got there first
+      const job = await loadJob(candidate.id);
+      if (!job || job.status !== 'PENDING') return null;
+
+      const timestamp = new Date().toISOString();
+      const updated: ValidationJob = {
+        ...job,
+        status: 'PROCESSING',
+        attempts: job.attempts + 1,
+        workerId,
+        startedAt: timestamp,
+        heartbeatAt: timestamp,
+        runAfter: undefined,
+      };
+      await saveJob(updated);
+      return updated;
+    });
+
+    if (claimed) return claimed;
+  }
+
+  return null;
+}
+
+// Refresh the liveness timestamp; returns false if the job is no longer ours
+export async function heartbeatJob(jobId: string, workerId: string): Promise<boolean> {
+  const result = await withJobLock(jobId, async () => {
+    const job = await loadJob(jobId);
+    if (!job || job.status !== 'PROCESSING' || job.workerId !== workerId) return false;
+
+    await saveJob({ ...job, heartbeatAt: new Date().toISOString() });
+    return true;
+  });
+  return result ?? true; // Lock contention isn't a lost claim
+}
+
+export async function completeJob(jobId: string): Promise<void> {
+  await withJobLock(jobId, async () => {
+    const job = await loadJob(jobId);
+    if (!job) return;
+
+    await saveJob({
+      ...job,
+      status: 'COMPLETED',
+      completedAt: new Date().toISOString(),
+      error: undefined,
+    });
+  });
+}
+
+// Stop a job that hasn't finished yet; a PENDING job will never be claimed afterwards
+export async function cancelJob(jobId: string): Promise<ValidationJob | null> {
+  return withJobLock(jobId, async () => {
+    const job = await loadJob(jobId);
+    if (!job || job.status === 'COMPLETED' || job.status === 'FAILED' || job.status === 'CANCELLED') return job;
+
+    const updated: ValidationJob = {
+      ...job,
+      status: 'CANCELLED',
+      workerId: undefined,
+      heartbeatAt: undefined,
+      runAfter: undefined,
+      completedAt: new Date().toISOString(),
+    };
+    await saveJob(updated);
+    return updated;
+  });
+}
+
+// Hand an unfinished job back to the queue when a time-boxed worker runs out of time.
+// Nothing failed, so the attempt isn't counted; only a job that never finishes is failed.
+export async function releaseJob(jobId: string, workerId: string): Promise<ValidationJob | null> {
+  return withJobLock(jobId, async () => {
+    const job = await loadJob(jobId);
+    if (!job || job.status !== 'PROCESSING' || job.workerId !== workerId) return null;
+
+    const releases = (job.releases || 0) + 1;
+    const exhausted = releases > MAX_JOB_RELEASES;
+    const updated: ValidationJob = {
+      ...job,
+      status: exhausted ? 'FAILED' : 'PENDING',
+      attempts: exhausted ? job.attempts : job.attempts - 1,
+      releases,
+      error: exhausted ? `Still unfinished after ${MAX_JOB_RELEASES} worker time slices` : job.error,
+      workerId: undefined,
+      heartbeatAt: undefined,
+      completedAt: exhausted ? new Date().toISOString() : undefined,
+    };
+    await saveJob(updated);
+    return updated;
+  });
+}
+
+// Record a failed attempt; the job is re-queued with backoff until maxAttempts is reached.
+// Returns the updated job so callers can tell whether it will be retried.
+export async function failJob(jobId: string, error: string): Promise<ValidationJob | null> {
+  return withJobLock(jobId, async () => {
+    const job = await loadJob(jobId);
+    if (!job) return null;
+
+    const exhausted = job.attempts >= job.maxAttempts;
+    const backoffMs = Math.min(30000 * Math.pow(2, job.attempts - 1), 5 * 60 * 1000);
+    const updated: ValidationJob = {
+      ...job,
+      status: exhausted ? 'FAILED' : 'PENDING',
+      error,
+      workerId: undefined,
+      heartbeatAt: undefined,
+      runAfter: exhausted ? undefined : new Date(Date.now() + backoffMs).toISOString(),
+      completedAt: exhausted ? new Date().toISOString() : undefined,
+    };
+    await saveJob(updated);
+    return updated;
+  });
+}
+
+// Find PROCESSING jobs whose worker died (process restart, crash, function timeout)
+// and put them back in the queue, or fail them if they've used up their attempts.
+export async function recoverOrphanedJobs(): Promise<ValidationJob[]> {
+  const now = Date.now();
+  const orphaned = (await listJobs()).filter(job =>
+    job.status === 'PROCESSING' &&
+    (!job.heartbeatAt || now - new Date(job.heartbeatAt).getTime() > JOB_STALE_AFTER_MS)
+  );
+
+  const recovered: ValidationJob[] = [];
+  for (const orphan of orphaned) {
+    const updated = await withJobLock(orphan.id, async () => {
+      const job = await loadJob(orphan.id);
+      if (!job || job.status !== 'PROCESSING') return null;
+
+      const exhausted = job.attempts >= job.maxAttempts;
+      const next: ValidationJob = {
+        ...job,
+        status: exhausted ? 'FAILED' : 'PENDING',
+        error: `Worker ${job.workerId || 'unknown'} stopped heartbeating`,
+        workerId: undefined,
+        heartbeatAt: undefined,
+        completedAt: exhausted ? new Date().toISOString() : undefined,
+      };
+      await saveJob(next);
+      return next;
+    });
+
+    if (updated) {
+      console.log(`♻️ Recovered orphaned job ${updated.id} -> ${updated.status}`);
+      recovered.push(updated);
+    }
+  }
+
+  return recovered;
+}
@@ -0,0 +1,341 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ValidationJob } from '@/types/api';
+import { ProcessingStep } from '@/types/validation';
+import { loadValidation, updateValidation } from '@/lib/storage/json';
+import { ValidationPipeline } from '@/lib/processing/validation-pipeline';
+import { loadCostBreakdown } from '@/lib/ai/token-usage';
+import {
+  claimNextJob,
+  heartbeatJob,
+  completeJob,
+  failJob,
+  cancelJob,
+  releaseJob,
+  recoverOrphanedJobs,
+} from './job-queue';
+import { StopReason, ValidationStoppedError, isValidationCancelled } from './cancellation';
+import { publishValidationEvent } from '@/lib/processing/progress-events';
+
+const POLL_INTERVAL_MS = 2000;
+const HEARTBEAT_INTERVAL_MS = 15000;
+const RECOVERY_INTERVAL_MS = 30000;
+// A time-boxed drain doesn't start another job with less than this left in its slice
+const MIN_SLICE_REMAINING_MS = 15000;
+
+// 'loop' keeps a worker running inside the server process, which needs a long-lived server.
+// 'cron' leaves the queue to /api/jobs/drain, for serverless hosts that end work with the request.
+export type WorkerMode = 'loop' | 'cron';
+
+export function getWorkerMode(): WorkerMode {
+  const mode = process.env.VALIDATION_WORKER_MODE;
+  if (mode === 'loop' || mode === 'cron') return mode;
+  return process.env.VERCEL ? 'cron' : 'loop';
+}
+
+export interface ValidationJobData {
+  ideaDescription: string;
+  refinedIdeaData?: {
+    oneLiner: string;
+    targetAudience: string;
+    problem: string;
+  };
+}
+
+interface WorkerState {
+  workerId: string;
+  running: boolean;
+  wake?: () => void;
+}
+
+// Keep worker state on globalThis so dev-mode hot reloads don't start a second loop
+const globalForWorker = globalThis as unknown as { validationWorker?: WorkerState };
+
+// Start the long-lived worker loop (idempotent - safe to call from every request).
+// Does nothing in cron mode, where the drain endpoint works through the queue instead.
+export function startValidationWorker(): void {
+  if (getWorkerMode() === 'cron') return;
+
+  if (globalForWorker.validationWorker?.running) {
+    globalForWorker.validationWorker.wake?.();
+    return;
+  }
+
+  const state: WorkerState = {
+    workerId: `worker_${process.pid}_${uuidv4().slice(0, 8)}`,
+    running: true,
+  };
+  globalForWorker.validationWorker = state;
+
+  console.log(`👷 Starting validation worker ${state.workerId}`);
+  workerLoop(state).catch(error => {
+    console.error('❌ Validation worker crashed:', error);
+    state.running = false;
+  });
+}
+
+export function stopValidationWorker(): void {
+  const state = globalForWorker.validationWorker;
+  if (!state) return;
+  state.running = false;
+  state.wake?.();
+}
+
+async function workerLoop(state: WorkerState): Promise<void> {
+  let lastRecovery = 0;
+
+  while (state.running) {
+    try {
+      // Recover jobs orphaned by a previous process (on startup and periodically after)
+      if (Date.now() - lastRecovery > RECOVERY_INTERVAL_MS) {
+        lastRecovery = Date.now();
+        const recovered = await recoverOrphanedJobs();
+        for (const job of recovered) {
+          await syncValidationWithJob(job);
+        }
+      }
+
+      const job = await claimNextJob(state.workerId);
+      if (job) {
+        await processJob(job, state.workerId);
+        continue; // Look for more work immediately
+      }
+    } catch (error) {
+      console.error('❌ Validation worker iteration failed:', error);
+    }
+
+    await idle(state, POLL_INTERVAL_MS);
+  }
+
+  console.log(`👷 Validation worker ${state.workerId} stopped`);
+}
+
+// Work through the queue for at most sliceMs, for hosts where nothing outlives a request.
+// A job still running when the slice ends is checkpointed and handed back to the queue,
+// and the next drain resumes it from its first incomplete step.
+export async function drainValidationQueue(sliceMs: number): Promise<{ workerId: string; processed: number; recovered: number }> {
+  const workerId = `drain_${process.pid}_${uuidv4().slice(0, 8)}`;
+  const deadline = Date.now() + sliceMs;
+
+  const recovered = await recoverOrphanedJobs();
+  for (const job of recovered) {
+    await syncValidationWithJob(job);
+  }
+
+  let processed = 0;
+  while (deadline - Date.now() > MIN_SLICE_REMAINING_MS) {
+    const job = await claimNextJob(workerId);
+    if (!job) break;
+    await processJob(job, workerId, deadline);
+    processed++;
+  }
+
+  console.log(`👷 Drain ${workerId} processed ${processed} job(s), recovered ${recovered.length}`);
+  return { workerId, processed, recovered: recovered.length };
+}
+
+function stopReason(signal: AbortSignal): StopReason | undefined {
+  if (!signal.aborted) return undefined;
+  return signal.reason instanceof ValidationStoppedError ? signal.reason.reason : 'claim_lost';
+}
+
+// Sleep until the poll interval elapses or a new job wakes the worker
+function idle(state: WorkerState, ms: number): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      state.wake = undefined;
+      resolve();
+    }
+    state.wake = done;
+  });
+}
+
+async function processJob(job: ValidationJob, workerId: string, deadline?: number): Promise<void> {
+  console.log(`🔧 Worker ${workerId} processing job ${job.id} (attempt ${job.attempts}/${job.maxAttempts})`);
+
+  // Once another worker owns the job this run must stop and leave the job and record alone
+  const controller = new AbortController();
+  const heartbeat = setInterval(async () => {
+    try {
+      const stillOwned = await heartbeatJob(job.id, workerId);
+      if (!stillOwned && !controller.signal.aborted) {
+        console.warn(`⚠️ Worker ${workerId} lost its claim on job ${job.id}, stopping`);
+        controller.abort(new ValidationStoppedError(job.validationId, 'claim_lost'));
+      }
+    } catch (error) {
+      // A missed heartbeat is retried on the next tick; the claim only goes stale after several
+      console.warn(`⚠️ Heartbeat for job ${job.id} failed:`, error instanceof Error ? error.message : error);
+    }
+  }, HEARTBEAT_INTERVAL_MS);
+
+  // A time-boxed worker stops between steps once its slice is used up
+  const sliceTimer = deadline !== undefined
+    ? setTimeout(() => controller.abort(new ValidationStoppedError(job.validationId, 'time_slice')), Math.max(0, deadline - Date.now()))
+    : undefined;
+
+  try {
+    // The user may have cancelled between enqueue and claim
+    if (await isValidationCancelled(job.validationId)) {
+      await cancelJob(job.id);
+      console.log(`🛑 Skipping job ${job.id}, validation ${job.validationId} was cancelled`);
+      return;
+    }
+
+    const currentStep = job.attempts > 1
+      ? `Retrying validation (attempt ${job.attempts} of ${job.maxAttempts})...`
+      : 'Initializing validation pipeline with real data sources...';
+    const started = await updateValidation(job.validationId, {
+      status: 'PROCESSING',
+      currentStep,
+      errorMessage: undefined,
+    }, { expectedStatus: ['PENDING', 'PROCESSING'] });
+    if (!started) {
+      await cancelJob(job.id);
+      console.log(`🛑 Skipping job ${job.id}, validation ${job.validationId} was cancelled`);
+      return;
+    }
+    publishValidationEvent(job.validationId, { type: 'status', status: 'PROCESSING', currentStep });
+
+    const result = await runValidationJob(job, controller.signal);
+
+    if (stopReason(controller.signal) === 'claim_lost') {
+      console.log(`⏸️ Worker ${workerId} left job ${job.id} to its new owner`);
+    } else if (result.success) {
+      await completeJob(job.id);
+    } else if (result.cancelled) {
+      await cancelJob(job.id);
+    } else if (result.stopped) {
+      const released = await releaseJob(job.id, workerId);
+      if (released?.status === 'FAILED') await syncValidationWithJob(released, result.steps);
+    } else {
+      const failed = await failJob(job.id, result.error || 'Unknown pipeline error');
+      if (failed) await syncValidationWithJob(failed, result.steps);
+    }
+  } catch (error) {
+    console.error(`❌ Job ${job.id} crashed:`, error);
+    if (stopReason(controller.signal) === 'claim_lost') return;
+    if (await isValidationCancelled(job.validationId)) {
+      await cancelJob(job.id);
+      return;
+    }
+    const failed = await failJob(job.id, error instanceof Error ? error.message : 'Critical pipeline failure');
+    if (failed) await syncValidationWithJob(failed);
+  } finally {
+    clearInterval(heartbeat);
+    clearTimeout(sliceTimer);
+  }
+}
+
+// REAL validation pipeline with transparent processing
+async function runValidationJob(job: ValidationJob, signal: AbortSignal): Promise<{ success: boolean; cancelled?: boolean; stopped?: boolean; error?: string; steps?: ProcessingStep[] }> {
+  const { ideaDescription, refinedIdeaData } = job.data as ValidationJobData;
+  const validationId = job.validationId;
+
+  console.log(`🚀 Starting REAL validation pipeline for: ${ideaDescription.substring(0, 50)}...`);
+  if (refinedIdeaData) {
+    console.log('🎯 Using refined idea data for AI-powered Reddit targeting');
+  }
+
+  // Initialize pipeline with refined idea data and any checkpoints from earlier attempts,
+  // so retries and resumed validations pick up from the first incomplete step
+  const existing = await loadValidation(validationId);
+  const pipeline = new ValidationPipeline(validationId, ideaDescription, refinedIdeaData, existing?.stepCheckpoints, {
+    searchOptions: existing?.searchOptions,
+    signal
+  });
+  if (existing?.stepCheckpoints && Object.keys(existing.stepCheckpoints).length > 0) {
+    const resumeStep = pipeline.getResumeStep();
+    console.log(`♻️ Resuming validation ${validationId} from ${resumeStep ? `step ${resumeStep.step} (${resumeStep.id})` : 'the last step'}`);
+  }
+
+  // Execute pipeline with real data sources
+  const result = await pipeline.execute();
+
+  // The claim was lost mid-run: the new owner writes the record, so nothing here is saved
+  if (stopReason(signal) === 'claim_lost') {
+    return { success: false, stopped: true, error: result.error };
+  }
+
+  const costBreakdown = await loadCostBreakdown(validationId);
+
+  if (result.stopped === 'time_slice') {
+    const currentStep = 'Paused, continuing in the next worker run...';
+    const paused = await updateValidation(validationId, {
+      currentStep,
+      processingSteps: result.steps,
+      costBreakdown,
+    }, { expectedStatus: ['PROCESSING'] });
+    if (paused) publishValidationEvent(validationId, { type: 'status', status: 'PROCESSING', currentStep });
+    console.log(`⏸️ Validation ${validationId} paused at the end of the worker's time slice`);
+    return { success: false, stopped: true, steps: result.steps };
+  }
+
+  if (result.success) {
+    // A cancel can arrive while the last steps run; the cancel wins over the finished results
+    const completed = await updateValidation(validationId, {
+      status: 'COMPLETED',
+      finalScore: result.finalScore,
+      completedAt: new Date().toISOString(),
+      processingSteps: result.steps,
+      totalDataPoints: result.totalDataPoints,
+      // Save the raw inputs behind the score so results don't have to rebuild them
+      redditData: result.redditData,
+      trendsData: result.trendsData,
+      aiAnalysis: result.aiAnalysis,
+      keywords: result.keywords,
+      recommendedSubreddits: result.recommendedSubreddits,
+      promptVersions: result.promptVersions,
+      costBreakdown,
+      // Save every registered research module's output under its own field
+      ...result.research
+    }, { expectedStatus: ['PROCESSING'] });
+    if (!completed) {
+      await updateValidation(validationId, { processingSteps: result.steps, costBreakdown });
+      console.log(`🛑 Validation ${validationId} was cancelled before its results were saved`);
+      return { success: false, cancelled: true };
+    }
+    publishValidationEvent(validationId, { type: 'status', status: 'COMPLETED', progress: 100 });
+
+    console.log(`✅ Validation ${validationId} completed successfully with ${result.totalDataPoints} real data points`);
+    return { success: true };
+  }
+
+  if (result.cancelled) {
+    // The cancel endpoint already marked the record; only the step list needs saving
+    await updateValidation(validationId, { processingSteps: result.steps, costBreakdown });
+    console.log(`🛑 Validation ${validationId} cancelled`);
+    return { success: false, cancelled: true };
+  }
+
+  await updateValidation(validationId, { costBreakdown });
+  console.log(`❌ Validation ${validationId} attempt ${job.attempts} failed: ${result.error}`);
+  return { success: false, error: result.error, steps: result.steps };
+}
+
+// Reflect a failed or re-queued job on its validation record
+async function syncValidationWithJob(job: ValidationJob, steps?: ProcessingStep[]): Promise<void> {
+  if (job.status === 'FAILED') {
+    await updateValidation(job.validationId, {
+      status: 'FAILED',
+      currentStep: 'Pipeline execution failed',
+      errorMessage: job.error || 'Unknown pipeline error',
+      ...(steps && { processingSteps: steps }),
+    });
+    publishValidationEvent(job.validationId, {
+      type: 'status',
+      status: 'FAILED',
+      currentStep: 'Pipeline execution failed',
+      errorMessage: job.error || 'Unknown pipeline error',
+    });
+    console.log(`❌ Validation ${job.validationId} failed after ${job.attempts} attempts: ${job.error}`);
+  } else if (job.status === 'PENDING') {
+    const currentStep = `Attempt ${job.attempts} failed, validation queued for retry...`;
+    await updateValidation(job.validationId, {
+      status: 'PENDING',
+      currentStep,
+      ...(steps && { processingSteps: steps }),
+    });
+    publishValidationEvent(job.validationId, { type: 'status', status: 'PENDING', currentStep });
+  }
+}
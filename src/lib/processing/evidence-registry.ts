@@ -0,0 +1,219 @@
+import { EvidenceItem, EvidenceSourceSummary, RedditInsight } from '@/types/validation';
+import { EvidenceQueryResult, EvidenceSource, EvidenceSourceContext, getAttemptedQueries } from '@/lib/api/evidence-source';
+import { redditEvidenceSource } from '@/lib/api/reddit';
+import { hackerNewsEvidenceSource } from '@/lib/api/hackernews';
+import { analyzeDiscussionContent } from '@/lib/ai/content-analyzer';
+import { saveEvidenceAnalysisDebug, saveEvidenceSearchDebug } from '@/lib/storage/debug-storage';
+import { ValidationCancelledError } from '@/lib/jobs/cancellation';
+
+type SentimentCounts = { frustrated: number; neutral: number; satisfied: number };
+
+// Adding a discussion source only takes a new entry here
+const EVIDENCE_SOURCES: EvidenceSource[] = [
+  redditEvidenceSource,
+  hackerNewsEvidenceSource,
+];
+
+export function getEvidenceSources(): EvidenceSource[] {
+  return EVIDENCE_SOURCES;
+}
+
+// Searches every source in turn. A source that fails is logged and left out; collecting only
+// fails when none of them worked.
+export async function collectEvidence(context: EvidenceSourceContext): Promise<{ items: EvidenceItem[]; sources: EvidenceSourceSummary[] }> {
+  const items: EvidenceItem[] = [];
+  const sources: EvidenceSourceSummary[] = [];
+
+  for (const source of EVIDENCE_SOURCES) {
+    await context.checkCancelled?.();
+
+    let queries: EvidenceQueryResult[] = [];
+    try {
+      const result = await source.fetchItems(source.planQueries(context), context);
+      queries = result.queries;
+      const found = result.items.map(raw => source.normalize(raw));
+      items.push(...found);
+
+      sources.push({
+        id: source.id,
+        label: source.label,
+        searches: queries.length,
+        cacheHits: queries.filter(query => query.cached).length,
+        itemsFound: found.length
+      });
+      await saveEvidenceSearchDebug(context.validationId, {
+        ...source.debugInfo(context),
+        source: source.id,
+        queries,
+        itemsFound: found.length,
+        success: true
+      });
+    } catch (error) {
+      // A source that stopped part-way reports the searches it had already run
+      if (queries.length === 0) queries = getAttemptedQueries(error);
+
+      if (error instanceof ValidationCancelledError) {
+        console.log(`🛑 ${source.label} search stopped after ${queries.length} queries: ${error.message}`);
+        throw error;
+      }
+
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`❌ ${source.label} search failed:`, message);
+      sources.push({
+        id: source.id,
+        label: source.label,
+        searches: queries.length,
+        cacheHits: queries.filter(query => query.cached).length,
+        itemsFound: 0,
+        error: message
+      });
+      await saveEvidenceSearchDebug(context.validationId, {
+        ...source.debugInfo(context),
+        source: source.id,
+        queries,
+        itemsFound: 0,
+        success: false,
+        error: message
+      });
+    }
+  }
+
+  if (sources.every(source => source.error)) {
+    throw new Error(sources.map(source => `${source.label}: ${source.error}`).join('; '));
+  }
+
+  return { items, sources };
+}
+
+// Collects from every source and turns the AI analysis of the combined items into the demand
+// insight the scorer and report read - NO FALLBACKS
+export async function searchDiscussions(context: EvidenceSourceContext): Promise<RedditInsight> {
+  console.log('🔍 Starting discussion analysis for:', context.idea);
+
+  try {
+    const { items, sources } = await collectEvidence(context);
+
+    await context.checkCancelled?.();
+    console.log(`🤖 Using AI to analyze ${items.length} items from ${sources.filter(source => !source.error).map(source => source.label).join(', ')}...`);
+
+    const labels = Object.fromEntries(sources.map(source => [source.id, source.label]));
+    const aiAnalysis = await analyzeDiscussionContent(items, context.refinedIdea, context.validationId, labels);
+
+    // Convert AI analysis to the expected format
+    const problemMentions = aiAnalysis.relevantQuotes.map(quote => ({
+      quote: quote.quote,
+      author: quote.author,
+      subreddit: quote.subreddit,
+      upvotes: quote.upvotes,
+      url: quote.url,
+      sentiment: quote.sentiment,
+      matchScore: quote.matchScore,
+      verified: quote.verified,
+      origin: quote.origin,
+      timestamp: new Date().toISOString()
+    }));
+
+    // Calculate sentiment distribution from AI analysis
+    const sentimentCounts: SentimentCounts = {
+      frustrated: aiAnalysis.relevantQuotes.filter(q => q.sentiment === 'frustrated').length,
+      neutral: aiAnalysis.relevantQuotes.filter(q => q.sentiment === 'neutral').length,
+      satisfied: aiAnalysis.relevantQuotes.filter(q => q.sentiment === 'satisfied').length
+    };
+    console.log('📊 Sentiment counts:', sentimentCounts);
+    console.log(`🎯 AI found ${problemMentions.length} relevant quotes from ${aiAnalysis.totalRelevantPosts} relevant posts`);
+
+    const insight: RedditInsight = {
+      posts: problemMentions.slice(0, 20).map(mention => ({
+        title: `"${mention.quote.substring(0, 100)}..."`,
+        content: mention.quote,
+        subreddit: mention.subreddit,
+        upvotes: mention.upvotes,
+        comments: 0,
+        sentiment: mention.sentiment === 'frustrated' ? 3 : mention.sentiment === 'satisfied' ? 8 : 5,
+        url: mention.url,
+        createdAt: mention.timestamp
+      })),
+      sentiment: calculateAverageSentiment(sentimentCounts),
+      painPoints: aiAnalysis.painPoints,
+      discussionVolume: problemMentions.length,
+      engagementLevel: problemMentions.reduce((sum, m) => sum + m.upvotes, 0) / Math.max(1, problemMentions.length),
+      score: calculateDiscussionScore(problemMentions, sentimentCounts),
+      searchCache: {
+        hits: sources.reduce((sum, source) => sum + source.cacheHits, 0),
+        searches: sources.reduce((sum, source) => sum + source.searches, 0)
+      },
+      sources,
+      realData: {
+        totalMentions: problemMentions.length,
+        frustratedUsers: sentimentCounts.frustrated,
+        neutralUsers: sentimentCounts.neutral,
+        satisfiedUsers: sentimentCounts.satisfied,
+        totalRelevantPosts: aiAnalysis.totalRelevantPosts,
+        overallSentiment: aiAnalysis.overallSentiment,
+        frustrationLevel: aiAnalysis.frustrationLevel,
+        keyInsights: aiAnalysis.keyInsights,
+        topQuotes: problemMentions
+          .sort((a, b) => b.upvotes - a.upvotes)
+          .slice(0, 10)
+          .map(m => ({
+            quote: m.quote,
+            author: m.author,
+            subreddit: m.subreddit,
+            upvotes: m.upvotes,
+            sentiment: m.sentiment,
+            url: m.url,
+            matchScore: m.matchScore,
+            verified: m.verified,
+            origin: m.origin
+          }))
+      }
+    };
+
+    await saveEvidenceAnalysisDebug(context.validationId, {
+      sources,
+      totalItemsAnalyzed: items.length,
+      relevantQuotesFound: aiAnalysis.relevantQuotes.length,
+      totalMentions: problemMentions.length,
+      frustratedUsers: sentimentCounts.frustrated,
+      overallSentiment: aiAnalysis.overallSentiment,
+      frustrationLevel: aiAnalysis.frustrationLevel,
+      keyInsights: aiAnalysis.keyInsights
+    });
+
+    return insight;
+
+  } catch (error) {
+    if (error instanceof ValidationCancelledError) throw error;
+
+    console.error('AI discussion analysis failed:', error);
+    // NO FALLBACK - throw the error so validation fails
+    throw new Error(`Discussion analysis failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+function calculateDiscussionScore(mentions: Array<{ upvotes: number }>, sentimentCounts: SentimentCounts): number {
+  const totalMentions = mentions.length;
+
+  if (totalMentions === 0) return 20;
+
+  // Volume score (0-30 points)
+  const volumeScore = Math.min(totalMentions * 0.6, 30);
+
+  // Problem intensity score (0-40 points) - more frustrated users = more opportunity
+  const problemIntensity = (sentimentCounts.frustrated / totalMentions) * 40;
+
+  // Engagement score (0-30 points)
+  const avgUpvotes = mentions.reduce((sum, m) => sum + m.upvotes, 0) / totalMentions;
+  const engagementScore = Math.min(avgUpvotes * 2, 30);
+
+  return Math.round(volumeScore + problemIntensity + engagementScore);
+}
+
+function calculateAverageSentiment(sentimentCounts: SentimentCounts): number {
+  const total = sentimentCounts.frustrated + sentimentCounts.neutral + sentimentCounts.satisfied;
+
+  if (total === 0) return 5;
+
+  const weightedSum = (sentimentCounts.frustrated * 3) + (sentimentCounts.neutral * 5) + (sentimentCounts.satisfied * 8);
+  return Math.round(weightedSum / total);
+}
@@ -0,0 +1,37 @@
+import { EventEmitter } from 'events';
+import { ProcessingStep, ValidationRequest } from '@/types/validation';
+
+export type ValidationEvent =
+  | { type: 'step'; step: ProcessingStep; progress: number; currentStep: string; estimatedCompletionAt?: string }
+  | { type: 'result'; stepId: string; step: number; data: unknown }
+  | {
+      type: 'status';
+      status: ValidationRequest['status'];
+      progress?: number;
+      currentStep?: string;
+      errorMessage?: string;
+    };
+
+// One emitter per process, kept on globalThis so dev-mode hot reloads share it with the worker
+const globalForEvents = globalThis as unknown as { validationEvents?: EventEmitter };
+
+function getEmitter(): EventEmitter {
+  if (!globalForEvents.validationEvents) {
+    globalForEvents.validationEvents = new EventEmitter();
+    globalForEvents.validationEvents.setMaxListeners(0); // One listener per open progress page
+  }
+  return globalForEvents.validationEvents;
+}
+
+export function publishValidationEvent(validationId: string, event: ValidationEvent): void {
+  getEmitter().emit(validationId, event);
+}
+
+// Returns an unsubscribe function
+export function subscribeToValidation(validationId: string, listener: (event: ValidationEvent) => void): () => void {
+  const emitter = getEmitter();
+  emitter.on(validationId, listener);
+  return () => {
+    emitter.off(validationId, listener);
+  };
+}
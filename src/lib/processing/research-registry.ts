@@ -0,0 +1,190 @@
+import { z } from 'zod';
+import { ValidationRequest } from '@/types/validation';
+import { ResearchModuleInfo } from '@/types/api';
+import { PromptId } from '@/lib/ai/prompt-registry';
+import { researchCompetitors, AICompetitorData } from '@/lib/ai/competitor-researcher';
+import { researchMarketSize, AIMarketSizeData, AIMarketSizeDataSchema } from '@/lib/ai/market-size-researcher';
+import { researchScalability, AIScalabilityData, AIScalabilityDataSchema } from '@/lib/ai/scalability-researcher';
+import { researchCompetitiveMoat, AIMoatData, AIMoatDataSchema } from '@/lib/ai/moat-researcher';
+import { researchUniqueValueZone, AIUVZData, AIUVZDataSchema } from '@/lib/ai/uvz-researcher';
+import { researchMVPTimeline, AIMVPTimelineData, AIMVPTimelineDataSchema } from '@/lib/ai/mvp-timeline-researcher';
+
+export interface ResearchContext {
+  validationId: string;
+  ideaDescription: string;
+  refinedIdea: {
+    oneLiner: string;
+    targetAudience: string;
+    problem: string;
+  };
+  outputs: { [stepId: string]: any }; // Outputs of the pipeline steps listed in `inputs`
+}
+
+export interface ResearchModule<T = any> {
+  id: string;
+  title: string;
+  description: string;                  // Shown on the progress page while the module runs
+  inputs: string[];                     // Pipeline step ids whose output the module reads
+  prompt: PromptId;                     // Prompt template the module sends to the model
+  outputSchema: z.ZodType;              // Shape the output must have before it is saved
+  weight: number;                       // Share of overall pipeline progress
+  resultKey: keyof ValidationRequest;   // Field the output is stored under on the validation
+  card: { id: string; order: number };  // Dashboard card that renders the output
+  run: (context: ResearchContext) => Promise<T>;
+  summarize: (output: T) => { message: string; dataPoints: number };
+}
+
+// Adding a research module only takes a new entry here (plus its card in research-cards.tsx)
+const RESEARCH_MODULES: ResearchModule[] = [
+  {
+    id: 'competitors',
+    title: 'AI Competitor Research',
+    description: 'AI researching current competitors in the market...',
+    inputs: [],
+    prompt: 'competitorResearch',
+    outputSchema: z.object({
+      competitors: z.array(z.object({ name: z.string() })),
+      complaints: z.array(z.any()),
+    }),
+    weight: 10,
+    resultKey: 'competitorData',
+    card: { id: 'competition', order: 10 },
+    run: async ({ refinedIdea, validationId }) => {
+      const aiCompetitorData: AICompetitorData = await researchCompetitors(
+        refinedIdea.oneLiner,
+        refinedIdea.targetAudience,
+        refinedIdea.problem,
+        validationId
+      );
+
+      // Convert AI data to expected format for compatibility
+      return {
+        competitors: aiCompetitorData.competitors.map(comp => ({
+          name: comp.name,
+          mentions: 1, // AI found them, so count as 1 mention
+          sentiment: comp.userComplaints.length > 0 ? 'negative' : 'positive',
+          source: 'AI Research',
+          description: comp.description,
+          fundingStatus: comp.fundingStatus,
+          strengths: comp.strengths,
+          weaknesses: comp.weaknesses,
+          pricing: comp.pricing,
+          category: comp.category,
+          marketPosition: comp.marketPosition
+        })),
+        complaints: aiCompetitorData.competitors.flatMap(comp =>
+          comp.userComplaints.map(complaint => ({
+            competitor: comp.name,
+            complaint: complaint,
+            author: 'AI Research',
+            subreddit: 'Market Research',
+            severity: 'medium' as const
+          }))
+        ),
+        opportunities: aiCompetitorData.opportunities,
+        marketGaps: aiCompetitorData.marketGaps,
+        competitiveLandscape: aiCompetitorData.competitiveLandscape,
+        totalCompetitors: aiCompetitorData.totalCompetitors
+      };
+    },
+    summarize: data => ({
+      message: `Found ${data.competitors.length} competitors, ${data.complaints.length} user complaints`,
+      dataPoints: data.competitors.length + data.complaints.length
+    })
+  },
+  {
+    id: 'marketSize',
+    title: 'AI Market Research',
+    description: 'AI researching market size and growth data...',
+    inputs: [],
+    prompt: 'marketSizeResearch',
+    outputSchema: AIMarketSizeDataSchema,
+    weight: 10,
+    resultKey: 'marketSizeData',
+    card: { id: 'market-size', order: 30 },
+    run: ({ refinedIdea, validationId }) => researchMarketSize(refinedIdea.oneLiner, refinedIdea.targetAudience, refinedIdea.problem, validationId),
+    summarize: (data: AIMarketSizeData) => ({
+      message: `TAM: $${(data.totalAddressableMarket.value / 1000000).toFixed(1)}M, Growth: ${data.marketGrowthRate.annual}%`,
+      dataPoints: data.marketSegments.length
+    })
+  },
+  {
+    id: 'scalability',
+    title: 'AI Scalability Research',
+    description: 'AI analyzing business scalability and growth potential...',
+    inputs: [],
+    prompt: 'scalabilityResearch',
+    outputSchema: AIScalabilityDataSchema,
+    weight: 10,
+    resultKey: 'scalabilityData',
+    card: { id: 'scalability', order: 40 },
+    run: ({ refinedIdea, validationId }) => researchScalability(refinedIdea.oneLiner, refinedIdea.targetAudience, refinedIdea.problem, validationId),
+    summarize: (data: AIScalabilityData) => ({
+      message: `Scalability Score: ${data.scalabilityScore}/100, Model: ${data.businessModel.type.toUpperCase()}`,
+      dataPoints: data.scalingFactors.length
+    })
+  },
+  {
+    id: 'moat',
+    title: 'AI Moat Research',
+    description: 'AI researching competitive moat and defensibility...',
+    inputs: [],
+    prompt: 'moatResearch',
+    outputSchema: AIMoatDataSchema,
+    weight: 10,
+    resultKey: 'moatData',
+    card: { id: 'moat', order: 50 },
+    run: ({ refinedIdea, validationId }) => researchCompetitiveMoat(refinedIdea.oneLiner, refinedIdea.targetAudience, refinedIdea.problem, validationId),
+    summarize: (data: AIMoatData) => ({
+      message: `Moat Score: ${data.moatScore}/100, ${data.defensibilityFactors.length} factors identified`,
+      dataPoints: data.defensibilityFactors.length
+    })
+  },
+  {
+    id: 'uvz',
+    title: 'AI UVZ Research',
+    description: 'AI researching unique value zone and competitive differentiation...',
+    inputs: [],
+    prompt: 'uvzResearch',
+    outputSchema: AIUVZDataSchema,
+    weight: 10,
+    resultKey: 'uvzData',
+    card: { id: 'uvz', order: 20 },
+    run: ({ refinedIdea, validationId }) => researchUniqueValueZone(refinedIdea.oneLiner, refinedIdea.targetAudience, refinedIdea.problem, validationId),
+    summarize: (data: AIUVZData) => ({
+      message: `UVZ Score: ${data.uniquenessScore}/100, ${data.competitiveAdvantages.length} advantages identified`,
+      dataPoints: data.competitiveAdvantages.length
+    })
+  },
+  {
+    id: 'mvpTimeline',
+    title: 'AI MVP Timeline',
+    description: 'AI planning MVP build phases, critical path and launch timeline...',
+    inputs: [],
+    prompt: 'mvpTimelineResearch',
+    outputSchema: AIMVPTimelineDataSchema,
+    weight: 10,
+    resultKey: 'mvpTimelineData',
+    card: { id: 'mvp-timeline', order: 60 },
+    run: ({ refinedIdea, validationId }) => researchMVPTimeline(refinedIdea.oneLiner, refinedIdea.targetAudience, refinedIdea.problem, validationId),
+    summarize: (data: AIMVPTimelineData) => ({
+      message: `MVP in ${data.totalTimelineWeeks} weeks across ${data.developmentPhases.length} phases, ${data.criticalPath.length} milestones`,
+      dataPoints: data.developmentPhases.length + data.criticalPath.length
+    })
+  }
+];
+
+export function getResearchModules(): ResearchModule[] {
+  return RESEARCH_MODULES;
+}
+
+export function getResearchModule(id: string): ResearchModule | undefined {
+  return RESEARCH_MODULES.find(researchModule => researchModule.id === id);
+}
+
+// Client-safe description of each module, used by the results API and the dashboard
+export function getResearchModuleInfo(): ResearchModuleInfo[] {
+  return RESEARCH_MODULES
+    .map(({ id, title, resultKey, card }) => ({ id, title, resultKey: String(resultKey), card: card.id, order: card.order }))
+    .sort((a, b) => a.order - b.order);
+}
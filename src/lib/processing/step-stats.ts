@@ -0,0 +1,82 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+const STATS_DIR = path.join(process.cwd(), 'data', 'stats');
+const STATS_FILE = path.join(STATS_DIR, 'step-durations.json');
+
+// Only the most recent runs count, so estimates follow API speed changes
+const MAX_SAMPLES_PER_STEP = 50;
+
+interface StepDurationSample {
+  durationMs: number;
+  units: number;          // Planned work items, e.g. Reddit queries; 1 for fixed-size steps
+  recordedAt: string;
+}
+
+type StepDurationHistory = { [stepId: string]: StepDurationSample[] };
+
+export interface StepDurationStats {
+  [stepId: string]: {
+    medianMs: number;
+    medianPerUnitMs: number;
+    samples: number;
+  };
+}
+
+// Serializes read-modify-write cycles from steps that finish at the same time
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+async function loadHistory(): Promise<StepDurationHistory> {
+  try {
+    const data = await fs.readFile(STATS_FILE, 'utf-8');
+    return JSON.parse(data) as StepDurationHistory;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error('Error loading step duration stats:', error);
+    }
+    return {};
+  }
+}
+
+async function saveHistory(history: StepDurationHistory): Promise<void> {
+  await fs.mkdir(STATS_DIR, { recursive: true });
+  const tempFilePath = `${STATS_FILE}.tmp`;
+  await fs.writeFile(tempFilePath, JSON.stringify(history, null, 2));
+  await fs.rename(tempFilePath, STATS_FILE);
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+export function recordStepDuration(stepId: string, durationMs: number, units = 1): Promise<void> {
+  const task = writeQueue.then(async () => {
+    const history = await loadHistory();
+    const samples = history[stepId] || [];
+    samples.push({ durationMs, units: Math.max(1, units), recordedAt: new Date().toISOString() });
+    history[stepId] = samples.slice(-MAX_SAMPLES_PER_STEP);
+    await saveHistory(history);
+  });
+
+  writeQueue = task.catch(error => console.error(`Failed to record duration for step ${stepId}:`, error));
+  return writeQueue as Promise<void>;
+}
+
+// Rolling medians per step id across past validations
+export async function loadStepDurationStats(): Promise<StepDurationStats> {
+  const history = await loadHistory();
+  const stats: StepDurationStats = {};
+
+  for (const [stepId, samples] of Object.entries(history)) {
+    if (samples.length === 0) continue;
+    stats[stepId] = {
+      medianMs: median(samples.map(s => s.durationMs)),
+      medianPerUnitMs: median(samples.map(s => s.durationMs / s.units)),
+      samples: samples.length,
+    };
+  }
+
+  return stats;
+}
@@ -1,24 +1,31 @@
 import { updateValidation } from '@/lib/storage/json';
-import { extractKeywordsWithBestAI, AIProvider } from '@/lib/ai/ai-provider';
-import { searchRedditDiscussions } from '@/lib/api/reddit';
-import { researchCompetitors } from '@/lib/ai/competitor-researcher';
-import { researchMarketSize } from '@/lib/ai/market-size-researcher';
-import { researchScalability } from '@/lib/ai/scalability-researcher';
-import { researchCompetitiveMoat } from '@/lib/ai/moat-researcher';
-import { researchUniqueValueZone } from '@/lib/ai/uvz-researcher';
+import { getSubstituteSubreddits, resolveSearchOptions, MAX_SEARCH_QUERIES } from '@/lib/api/reddit';
+import { resolveSubreddits } from '@/lib/api/subreddit-resolver';
+import { getResearchModules, ResearchModule } from '@/lib/processing/research-registry';
+import { searchDiscussions } from '@/lib/processing/evidence-registry';
+import { fetchTrendsForKeywords } from '@/lib/api/google-trends';
+import { publishValidationEvent } from '@/lib/processing/progress-events';
+import { loadStepDurationStats, recordStepDuration, StepDurationStats } from '@/lib/processing/step-stats';
 import { analyzeStartupWithBestAI } from '@/lib/ai/ai-provider';
+import { getLLMClient } from '@/lib/ai/llm-client';
+import { getPromptVersions, PromptId, renderPrompt } from '@/lib/ai/prompt-registry';
 import { calculateRealValidationScore } from '@/lib/scoring/real-validation-scorer';
 import { generateEvidenceReport, formatEvidenceReport } from '@/lib/reports/evidence-report-generator';
-import { saveAIKeywordDebug, saveRedditSearchDebug, saveDebugLog } from '@/lib/storage/debug-storage';
+import { saveAIKeywordDebug, saveDebugLog } from '@/lib/storage/debug-storage';
+import { ValidationCancelledError, ValidationStoppedError, isValidationCancelled } from '@/lib/jobs/cancellation';
+import { PromptVersions, RedditSearchOptions, StepCheckpoint, ValidationRequest } from '@/types/validation';
 
 export interface ProcessingStep {
   step: number;
+  id: string;
   title: string;
   description: string;
-  progress: number;
+  weight: number;          // Share of overall progress this step represents
   status: 'pending' | 'processing' | 'completed' | 'failed';
   dataFound?: number;
   errorMessage?: string;
+  startedAt?: string;
+  finishedAt?: string;
 }
 
 export interface ProcessingResult {
@@ -26,8 +33,44 @@ export interface ProcessingResult {
   data?: any;
   error?: string;
   dataPoints?: number;
+  message?: string;        // Completion message shown for the step
 }
 
+export interface PipelineOptions {
+  concurrency?: number;    // Max steps running at the same time
+  searchOptions?: RedditSearchOptions;
+  signal?: AbortSignal;    // Aborted with a ValidationStoppedError when the worker has to stop
+}
+
+// A node in the pipeline's dependency graph
+interface StepDefinition {
+  step: number;
+  id: string;
+  title: string;
+  description: string;
+  weight: number;
+  dependsOn: string[];     // Ids of steps whose output this step needs
+  prompts: PromptId[];     // Prompt templates the step sends to a model
+  run: () => Promise<ProcessingResult>;
+}
+
+const DEFAULT_CONCURRENCY = 3;
+
+// Used until a step has history of its own
+const DEFAULT_STEP_DURATION_MS: { [id: string]: number } = {
+  keywords: 15000,
+  reddit: 240000,
+  sentiment: 1000,
+  trends: 10000,
+  aiAnalysis: 20000,
+  scores: 2000,
+};
+const DEFAULT_RESEARCH_DURATION_MS = 30000;
+const DEFAULT_REDDIT_QUERY_MS = 6000;
+
+// Keywords tried in turn until one has measurable search interest
+const MAX_TRENDS_KEYWORDS = 3;
+
 export class ValidationPipeline {
   private validationId: string;
   private ideaDescription: string;
@@ -36,577 +79,620 @@ export class ValidationPipeline {
     targetAudience: string;
     problem: string;
   };
-  
-  private steps: ProcessingStep[] = [
-    {
-      step: 1,
-      title: 'Extract Keywords',
-      description: 'Using AI to extract searchable keywords from your idea...',
-      progress: 15,
-      status: 'pending'
-    },
-    {
-      step: 2, 
-      title: 'Search Reddit',
-      description: 'Searching Reddit discussions for real user problems...',
-      progress: 35,
-      status: 'pending'
-    },
-    {
-      step: 3,
-      title: 'Analyze Sentiment',
-      description: 'Analyzing sentiment of real posts to calculate demand...',
-      progress: 55,
-      status: 'pending'
-    },
-    {
-      step: 4,
-      title: 'AI Competitor Research',
-      description: 'AI researching current competitors in the market...',
-      progress: 75,
-      status: 'pending'
-    },
-    {
-      step: 5,
-      title: 'AI Market Research', 
-      description: 'AI researching market size and growth data...',
-      progress: 75,
-      status: 'pending'
-    },
-    {
-      step: 6,
-      title: 'AI Scalability Research',
-      description: 'AI analyzing business scalability and growth potential...',
-      progress: 80,
-      status: 'pending'
-    },
-    {
-      step: 7,
-      title: 'AI Moat Research',
-      description: 'AI researching competitive moat and defensibility...',
-      progress: 85,
-      status: 'pending'
-    },
-    {
-      step: 8,
-      title: 'AI UVZ Research',
-      description: 'AI researching unique value zone and competitive differentiation...',
-      progress: 90,
-      status: 'pending'
-    },
-    {
-      step: 9,
-      title: 'Generate Report',
-      description: 'Combining all real data into evidence-based report...',
-      progress: 95,
-      status: 'pending'
-    },
-    {
-      step: 10,
-      title: 'Calculate Scores',
-      description: 'Computing final validation scores from real metrics...',
-      progress: 100,
-      status: 'pending'
-    }
-  ];
-
-  constructor(validationId: string, ideaDescription: string, refinedIdeaData?: { oneLiner: string; targetAudience: string; problem: string }) {
+  private checkpoints: { [stepId: string]: StepCheckpoint };
+  private concurrency: number;
+  private searchOptions?: RedditSearchOptions;
+  private signal?: AbortSignal;
+  private definitions: StepDefinition[];
+  private steps: ProcessingStep[];
+  private results: { [id: string]: ProcessingResult } = {};
+  private durationStats: StepDurationStats = {};
+  private plannedUnits: { [id: string]: number } = {};   // Work items per step, e.g. Reddit queries
+  // Serializes record writes so parallel steps can't interleave load/save cycles
+  private persistQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    validationId: string,
+    ideaDescription: string,
+    refinedIdeaData?: { oneLiner: string; targetAudience: string; problem: string },
+    checkpoints: { [stepId: string]: StepCheckpoint } = {},
+    options: PipelineOptions = {}
+  ) {
     this.validationId = validationId;
     this.ideaDescription = ideaDescription;
     this.refinedIdeaData = refinedIdeaData;
+    this.concurrency = Math.max(1, options.concurrency || Number(process.env.PIPELINE_CONCURRENCY) || DEFAULT_CONCURRENCY);
+    this.searchOptions = options.searchOptions;
+    this.signal = options.signal;
+
+    this.definitions = this.buildStepGraph();
+    // Steps with a saved checkpoint are restored instead of re-run (resume after failure)
+    this.checkpoints = this.usableCheckpoints(checkpoints);
+    this.steps = this.definitions.map(def => ({
+      step: def.step,
+      id: def.id,
+      title: def.title,
+      description: def.description,
+      weight: def.weight,
+      status: 'pending'
+    }));
+  }
+
+  // Research modules only need the refined idea, so they run alongside the Reddit branch
+  private buildStepGraph(): StepDefinition[] {
+    const research = getResearchModules();
+    const firstResearchStep = 4;
+    const trendsStep = firstResearchStep + research.length;
+    const analysisStep = trendsStep + 1;
+
+    const core: StepDefinition[] = [
+      {
+        step: 1,
+        id: 'keywords',
+        title: 'Extract Keywords',
+        description: 'Using AI to extract searchable keywords from your idea...',
+        weight: 10,
+        dependsOn: [],
+        prompts: ['subredditDiscovery'],
+        run: () => this.extractKeywords()
+      },
+      {
+        step: 2,
+        id: 'reddit',
+        title: 'Search Discussions',
+        description: 'Searching Reddit and other discussion sources for real user problems...',
+        weight: 25,
+        dependsOn: ['keywords'],
+        prompts: ['redditContentAnalysis'],
+        run: () => this.searchReddit()
+      },
+      {
+        step: 3,
+        id: 'sentiment',
+        title: 'Analyze Sentiment',
+        description: 'Analyzing sentiment of real posts to calculate demand...',
+        weight: 5,
+        dependsOn: ['reddit'],
+        prompts: [],
+        run: () => this.analyzeSentiment()
+      }
+    ];
+
+    const researchSteps: StepDefinition[] = research.map((researchModule, index) => ({
+      step: firstResearchStep + index,
+      id: researchModule.id,
+      title: researchModule.title,
+      description: researchModule.description,
+      weight: researchModule.weight,
+      dependsOn: researchModule.inputs,
+      prompts: [researchModule.prompt],
+      run: () => this.runResearchModule(researchModule)
+    }));
+
+    const trends: StepDefinition = {
+      step: trendsStep,
+      id: 'trends',
+      title: 'Search Trends',
+      description: 'Checking Google Trends for search interest over the past year...',
+      weight: 5,
+      dependsOn: ['keywords'],
+      prompts: [],
+      run: () => this.fetchTrends()
+    };
+
+    const analysis: StepDefinition = {
+      step: analysisStep,
+      id: 'aiAnalysis',
+      title: 'Generate Report',
+      description: 'Combining all real data into evidence-based report...',
+      weight: 5,
+      dependsOn: ['reddit', 'trends'],
+      prompts: ['startupAnalysis'],
+      run: () => this.generateAIAnalysis()
+    };
+
+    const upstream = [...core, ...researchSteps, trends, analysis];
+    return [
+      ...upstream,
+      {
+        step: analysisStep + 1,
+        id: 'scores',
+        title: 'Calculate Scores',
+        description: 'Computing final validation scores from real metrics...',
+        weight: 5,
+        // Runs last so "Validation complete" only appears once every branch has finished
+        dependsOn: upstream.map(def => def.id),
+        prompts: [],
+        run: () => this.calculateScores()
+      }
+    ];
   }
 
   async execute(): Promise<any> {
     console.log(`🚀 Starting validation pipeline for: ${this.ideaDescription.substring(0, 50)}...`);
-    
-    let keywords: string[] = [];
-    let redditData: any;
-    let competitorData: any;
-    let aiAnalysis: any;
+    console.log(`🧩 Running ${this.definitions.length} steps with concurrency ${this.concurrency}`);
 
     try {
-      // Step 1: Extract Keywords (with AI subreddit intelligence)
-      const keywordResult = await this.executeStep(1, async () => {
-        console.log('🔍 Using AI to find best Reddit communities and keywords...');
-        
-        let aiKeywordData = null;
-        
-        // If we have refined idea data, use AI to get smart subreddit recommendations
-        if (this.refinedIdeaData) {
-          console.log('🎯 Using refined idea data for intelligent Reddit targeting...');
-          
-          try {
-            // Call the keyword generation API directly instead of using fetch
-            const { GoogleGenerativeAI } = require('@google/generative-ai');
-            
-            if (!process.env.GEMINI_API_KEY) {
-              throw new Error('GEMINI_API_KEY not configured');
-            }
-            
-            const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY);
-            const model = genAI.getGenerativeModel({ model: 'gemini-2.0-flash-exp' });
-            
-            const prompt = `You are an expert Reddit researcher with deep knowledge of active communities. Your task is to identify 6-8 REAL, PUBLIC subreddits where people actively discuss problems related to this startup idea.
-
-STARTUP IDEA: "${this.refinedIdeaData.oneLiner}"
-TARGET AUDIENCE: "${this.refinedIdeaData.targetAudience}"  
-PROBLEM SOLVED: "${this.refinedIdeaData.problem}"
-
-RESEARCH METHODOLOGY - Follow this systematic approach:
-
-1. IDENTIFY PROBLEM CATEGORIES:
-   - What specific pain points does this solve?
-   - What daily frustrations do users face?
-   - What workflows or processes are broken?
-
-2. MAP AUDIENCE TO COMMUNITIES:
-   - Where does this target audience already gather on Reddit?
-   - What are their professional, hobby, or interest-based communities?
-   - Which demographic-specific subreddits do they frequent?
-
-3. FIND COMPLAINT & HELP-SEEKING COMMUNITIES:
-   - General complaint subreddits where people vent about this problem
-   - Professional communities where this audience asks for solutions
-   - Industry-specific subreddits where this problem is commonly discussed
-
-VERIFIED HIGH-QUALITY SUBREDDITS (examples of proven active communities):
-
-BUSINESS/PROFESSIONAL:
-- entrepreneur (2.1M members, high activity) - startup questions, business problems
-- smallbusiness (1.8M members, high activity) - operational challenges
-- freelance (240K members, medium activity) - independent worker issues
-- startups (1.2M members, medium activity) - early-stage company problems
-- sales (180K members, medium activity) - selling challenges and tools
-
-PROBLEM/COMPLAINT COMMUNITIES:
-- mildlyinfuriating (16M members, very high) - daily annoyances and problems
-- assholedesign (2.8M members, high) - poorly designed products/services
-- crappydesign (3.2M members, high) - frustration with bad design
-- techsupport (1.2M members, high) - technical problem solving
-
-INDUSTRY-SPECIFIC (choose relevant ones):
-- webdev (1.8M members, high) - web development problems
-- marketing (680K members, medium) - marketing challenges
-- productivity (450K members, medium) - efficiency and workflow issues
-- sysadmin (450K members, medium) - IT operations problems
-- cscareerquestions (950K members, high) - tech career challenges
-
-DEMOGRAPHIC/LIFESTYLE:
-- workingmoms (85K members, medium) - working parent challenges  
-- college (1.1M members, high) - student problems and solutions
-- careerchange (120K members, medium) - professional transition issues
-- remotework (220K members, medium) - remote work challenges
-
-SELECTION CRITERIA (be very strict):
-✓ Must have 50K+ active members (avoid small/dead communities)
-✓ Daily posts and comments (check recent activity)
-✓ Regular problem discussions (people asking for help/solutions)
-✓ Target audience presence (your users actually participate here)
-✓ Public access (no private/restricted communities)
-✓ English-speaking (avoid foreign language subreddits unless specified)
-
-SEARCH STRATEGY:
-- Use problem-specific keywords people actually type
-- Include solution-seeking language ("how to", "best way", "alternatives")
-- Add frustrated/complaint terms ("sucks", "hate", "terrible", "broken")
-- Focus on action-oriented queries that show intent to solve problems
-
-IMPORTANT: Return ONLY valid JSON with NO markdown formatting:
-
-{
-  "recommendedSubreddits": [
-    {
-      "name": "exact_subreddit_name",
-      "reason": "Specific explanation of why this community discusses your problem",
-      "memberCount": "actual member count like '1.2M' or 'large' if unknown",
-      "activityLevel": "high/medium based on daily post volume"
-    }
-  ],
-  "searchKeywords": ["specific terms your target audience types when they have this problem"],
-  "focusQueries": ["solution-seeking queries like 'how to solve X' or 'best X alternative'"],
-  "painPointQueries": ["complaint/frustration queries like 'X is terrible' or 'hate dealing with X'"]
-}
+      this.durationStats = await loadStepDurationStats();
+      await this.runGraph();
 
-Select 6-8 diverse subreddits covering:
-- 2-3 problem/complaint communities (broad reach)
-- 2-3 target audience professional communities  
-- 2-3 industry/niche specific communities
-- Focus on communities with regular help-seeking posts about your specific problem type`;
-            
-            const result = await model.generateContent(prompt);
-            const response = await result.response;
-            const aiText = response.text();
-            
-            console.log('🤖 AI response for keywords:', aiText.substring(0, 200) + '...');
-            
-            // Parse the JSON response with error handling
-            try {
-              let cleanText = aiText.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
-              
-              // Try to extract JSON if it's embedded in other text
-              const jsonMatch = cleanText.match(/\{[\s\S]*\}/);
-              if (jsonMatch) {
-                cleanText = jsonMatch[0];
-              }
-              
-              aiKeywordData = JSON.parse(cleanText);
-            } catch (keywordParseError) {
-              console.error('❌ Failed to parse AI keyword response:', keywordParseError);
-              console.error('Raw AI keyword response:', aiText);
-              throw new Error(`Failed to parse AI keyword response as JSON: ${keywordParseError instanceof Error ? keywordParseError.message : 'Unknown parse error'}`);
-            }
-            
-            if (!aiKeywordData.recommendedSubreddits || !aiKeywordData.searchKeywords || !aiKeywordData.focusQueries) {
-              throw new Error('AI returned incomplete keyword data');
-            }
-            
-            console.log('✅ AI recommended', aiKeywordData.recommendedSubreddits.length, 'subreddits');
-            keywords = aiKeywordData.searchKeywords;
-            
-            // Save debug data for AI keyword generation
-            await saveAIKeywordDebug(this.validationId, {
-              refinedIdeaInput: this.refinedIdeaData,
-              aiResponse: aiKeywordData,
-              success: true,
-              rawAIText: aiText
-            });
-            
-          } catch (aiError) {
-            console.error('❌ AI keyword generation failed:', aiError);
-            
-            // Save debug data for failed AI keyword generation
-            await saveAIKeywordDebug(this.validationId, {
-              refinedIdeaInput: this.refinedIdeaData,
-              aiResponse: { recommendedSubreddits: [], searchKeywords: [], focusQueries: [] },
-              success: false,
-              error: aiError instanceof Error ? aiError.message : 'Unknown AI error'
-            });
-            
-            throw aiError;
-          }
-        } else {
-          throw new Error('Refined idea data REQUIRED - no fallback available');
-        }
-        
+      console.log('✅ Validation pipeline completed successfully');
+      return {
+        success: true,
+        finalScore: this.output('scores'),
+        redditData: this.output('reddit'),
+        trendsData: this.output('trends') || undefined,
+        aiAnalysis: this.output('aiAnalysis'),
+        keywords: this.output('keywords')?.keywords,
+        recommendedSubreddits: this.output('keywords')?.aiKeywordData?.recommendedSubreddits,
+        research: this.getResearchResults(),
+        promptVersions: this.getPromptVersions(),
+        steps: this.steps,
+        totalDataPoints: this.results.scores?.dataPoints
+      };
+
+    } catch (error) {
+      if (error instanceof ValidationStoppedError) {
+        console.log(`⏸️ ${error.message}, pipeline stopped`);
         return {
-          success: true,
-          data: { keywords, aiKeywordData },
-          dataPoints: keywords.length + (aiKeywordData?.recommendedSubreddits?.length || 0)
+          success: false,
+          stopped: error.reason,
+          error: error.message,
+          steps: this.steps
         };
-      });
-
-      if (!keywordResult.success) throw new Error('Keyword extraction failed');
-      keywords = keywordResult.data.keywords;
-      const aiKeywordData = keywordResult.data.aiKeywordData;
-      
-      if (aiKeywordData) {
-        await this.updateStepStatus(1, 'completed', `AI found ${aiKeywordData.recommendedSubreddits.length} target subreddits + ${keywords.length} keywords`);
-      } else {
-        await this.updateStepStatus(1, 'completed', `Found ${keywords.length} keywords: ${keywords.slice(0, 3).join(', ')}...`);
       }
-
-      // Step 2: Search Reddit with AI-powered targeting
-      const redditResult = await this.executeStep(2, async () => {
-        console.log('📡 Searching Reddit with AI intelligence...');
-        
-        let data;
-        
-        if (aiKeywordData) {
-          // Use AI-recommended subreddits and queries + pass refined idea data for AI analysis
-          console.log('🎯 Using AI-recommended subreddits:', aiKeywordData.recommendedSubreddits.map((s: any) => s.name).join(', '));
-          data = await searchRedditDiscussions(
-            keywords, 
-            this.ideaDescription,
-            {
-              targetSubreddits: aiKeywordData.recommendedSubreddits.map((s: any) => s.name),
-              focusQueries: aiKeywordData.focusQueries,
-              painPointQueries: aiKeywordData.painPointQueries,
-              refinedIdeaData: this.refinedIdeaData
-            }
-          );
-        } else {
-          throw new Error('AI keyword generation required for refined idea validation');
-        }
-        
-        const mentions = data.realData?.totalMentions || 0;
+      if (error instanceof ValidationCancelledError) {
+        console.log(`🛑 ${error.message}, pipeline stopped`);
         return {
-          success: true, // Always continue pipeline even with 0 mentions
-          data,
-          dataPoints: mentions
+          success: false,
+          cancelled: true,
+          error: error.message,
+          steps: this.steps
         };
-      });
+      }
 
-      redditData = redditResult.data;
-      const redditMentions = redditData?.realData?.totalMentions || 0;
-      await this.updateStepStatus(2, redditResult.success ? 'completed' : 'failed', 
-        redditResult.success ? `Found ${redditMentions} real Reddit discussions` : 'No Reddit discussions found');
-
-      // Step 3: Analyze Sentiment (part of Reddit data)
-      await this.executeStep(3, async () => {
-        console.log('😡 Analyzing sentiment of real posts...');
-        if (redditData?.realData) {
-          const frustrated = redditData.realData.frustratedUsers;
-          const total = redditData.realData.totalMentions;
-          const frustrationPercent = total > 0 ? Math.round((frustrated / total) * 100) : 0;
-          
-          await this.updateStepStatus(3, 'completed', `${frustrationPercent}% of users frustrated with current solutions`);
-          return { success: true, data: { frustrationPercent, frustrated, total }, dataPoints: total };
-        } else {
-          await this.updateStepStatus(3, 'completed', 'No posts found - continuing with limited data analysis');
-          return { success: true, data: { frustrationPercent: 0, frustrated: 0, total: 0 }, dataPoints: 0 };
+      console.error('❌ Validation pipeline failed:', error);
+
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Pipeline execution failed',
+        steps: this.steps
+      };
+    } finally {
+      await this.persistQueue;
+    }
+  }
+
+  // Launch every step whose dependencies are satisfied, up to the concurrency limit.
+  // After a failure or cancellation no new steps start, but in-flight ones finish so their output is checkpointed.
+  private async runGraph(): Promise<void> {
+    const pending = new Set(this.definitions.map(def => def.id));
+    const completed = new Set<string>();
+    const running = new Map<string, Promise<void>>();
+    let failure: unknown = null;
+
+    while (pending.size > 0 || running.size > 0) {
+      const ready = failure ? [] : this.definitions.filter(def =>
+        pending.has(def.id) && def.dependsOn.every(dep => completed.has(dep))
+      );
+
+      // Check for cancellation between steps, before any new work is started
+      const stop = ready.length > 0 && running.size < this.concurrency ? await this.stopError() : null;
+      if (stop) {
+        failure = stop;
+      } else {
+        for (const def of ready) {
+          if (running.size >= this.concurrency) break;
+
+          pending.delete(def.id);
+          const task = this.executeStep(def)
+            .then(() => { completed.add(def.id); })
+            .catch(error => { failure = failure || error; })
+            .finally(() => { running.delete(def.id); });
+          running.set(def.id, task);
         }
-      });
+      }
 
-      // Step 4: AI Competitor Research  
-      const competitorResult = await this.executeStep(4, async () => {
-        console.log('🤖 AI researching competitors in the market...');
-        
-        if (!this.refinedIdeaData) {
-          throw new Error('Refined idea data required for AI competitor research');
+      if (running.size === 0) {
+        if (!failure && pending.size > 0) {
+          throw new Error(`Pipeline has unresolvable step dependencies: ${Array.from(pending).join(', ')}`);
         }
-        
-        const aiCompetitorData = await researchCompetitors(
-          this.refinedIdeaData.oneLiner,
-          this.refinedIdeaData.targetAudience, 
-          this.refinedIdeaData.problem
-        );
-        
-        // Convert AI data to expected format for compatibility
-        const data = {
-          competitors: aiCompetitorData.competitors.map(comp => ({
-            name: comp.name,
-            mentions: 1, // AI found them, so count as 1 mention
-            sentiment: comp.userComplaints.length > 0 ? 'negative' : 'positive',
-            source: 'AI Research',
-            description: comp.description,
-            fundingStatus: comp.fundingStatus,
-            strengths: comp.strengths,
-            weaknesses: comp.weaknesses,
-            pricing: comp.pricing,
-            category: comp.category,
-            marketPosition: comp.marketPosition
-          })),
-          complaints: aiCompetitorData.competitors.flatMap(comp => 
-            comp.userComplaints.map(complaint => ({
-              competitor: comp.name,
-              complaint: complaint,
-              author: 'AI Research',
-              subreddit: 'Market Research',
-              severity: 'medium' as const
-            }))
-          ),
-          opportunities: aiCompetitorData.opportunities,
-          marketGaps: aiCompetitorData.marketGaps,
-          competitiveLandscape: aiCompetitorData.competitiveLandscape,
-          totalCompetitors: aiCompetitorData.totalCompetitors
-        };
-        
-        return {
-          success: true,
-          data,
-          dataPoints: data.competitors.length + data.complaints.length
-        };
-      });
+        break;
+      }
 
-      competitorData = competitorResult.data;
-      await this.updateStepStatus(4, 'completed', `Found ${competitorData.competitors.length} competitors, ${competitorData.complaints.length} user complaints`);
+      await Promise.race(running.values());
+    }
 
-      // Step 5: AI Market Size Research
-      let marketSizeData: any;
-      const marketSizeResult = await this.executeStep(5, async () => {
-        console.log('📊 AI researching market size and growth data...');
-        
-        if (!this.refinedIdeaData) {
-          throw new Error('Refined idea data required for AI market size research');
-        }
-        
-        const aiMarketData = await researchMarketSize(
-          this.refinedIdeaData.oneLiner,
-          this.refinedIdeaData.targetAudience,
-          this.refinedIdeaData.problem
-        );
-        
-        return {
-          success: true,
-          data: aiMarketData,
-          dataPoints: aiMarketData.marketSegments.length
-        };
-      });
+    if (failure) throw failure;
+  }
 
-      marketSizeData = marketSizeResult.data;
-      await this.updateStepStatus(5, 'completed', `TAM: $${(marketSizeData.totalAddressableMarket.value / 1000000).toFixed(1)}M, Growth: ${marketSizeData.marketGrowthRate.annual}%`);
+  private async executeStep(def: StepDefinition): Promise<ProcessingResult> {
+    // Reuse the output saved by a previous run instead of repeating the work
+    const checkpoint = this.checkpoints[def.id];
+    if (checkpoint) {
+      console.log(`♻️ Step ${def.step} (${def.id}): reusing checkpoint from ${checkpoint.completedAt}`);
+      this.results[def.id] = { success: true, data: checkpoint.output, dataPoints: checkpoint.dataPoints };
+      this.planWork(def.id);
+      await this.updateStepStatus(def.step, 'completed', checkpoint.description || 'Restored from previous run', checkpoint.dataPoints);
+      publishValidationEvent(this.validationId, { type: 'result', stepId: def.id, step: def.step, data: checkpoint.output });
+      return this.results[def.id];
+    }
 
-      // Step 6: AI Scalability Research
-      let scalabilityData: any;
-      const scalabilityResult = await this.executeStep(6, async () => {
-        console.log('🚀 AI researching business scalability and growth potential...');
-        
-        if (!this.refinedIdeaData) {
-          throw new Error('Refined idea data required for AI scalability research');
-        }
-        
-        const aiScalabilityData = await researchScalability(
-          this.refinedIdeaData.oneLiner,
-          this.refinedIdeaData.targetAudience,
-          this.refinedIdeaData.problem
-        );
-        
-        return {
-          success: true,
-          data: aiScalabilityData,
-          dataPoints: aiScalabilityData.scalingFactors.length
-        };
-      });
+    // Mark step as processing
+    await this.updateStepStatus(def.step, 'processing');
+    const startedAt = Date.now();
 
-      scalabilityData = scalabilityResult.data;
-      await this.updateStepStatus(6, 'completed', `Scalability Score: ${scalabilityData.scalabilityScore}/100, Model: ${scalabilityData.businessModel.type.toUpperCase()}`);
+    try {
+      const result = await def.run();
+      if (!result.success) {
+        throw new Error(result.error || `${def.title} failed`);
+      }
 
-      // Step 7: AI Moat Research
-      let moatData: any;
-      const moatResult = await this.executeStep(7, async () => {
-        console.log('🏰 AI researching competitive moat and defensibility...');
-        
-        if (!this.refinedIdeaData) {
-          throw new Error('Refined idea data required for AI moat research');
-        }
-        
-        const aiMoatData = await researchCompetitiveMoat(
-          this.refinedIdeaData.oneLiner,
-          this.refinedIdeaData.targetAudience,
-          this.refinedIdeaData.problem
-        );
-        
-        return {
-          success: true,
-          data: aiMoatData,
-          dataPoints: aiMoatData.defensibilityFactors.length
-        };
+      this.results[def.id] = result;
+      this.planWork(def.id);
+      recordStepDuration(def.id, Date.now() - startedAt, this.plannedUnits[def.id]);
+      this.checkpoints[def.id] = {
+        stepId: def.id,
+        step: def.step,
+        output: result.data,
+        dataPoints: result.dataPoints,
+        description: result.message,
+        ...(def.prompts.length > 0 && { promptVersions: getPromptVersions(def.prompts) }),
+        completedAt: new Date().toISOString()
+      };
+      await this.updateStepStatus(def.step, 'completed', result.message, result.dataPoints);
+      // Stream the partial result so the progress page can show findings before the run finishes
+      publishValidationEvent(this.validationId, { type: 'result', stepId: def.id, step: def.step, data: result.data });
+      return result;
+    } catch (error) {
+      if (error instanceof ValidationCancelledError) {
+        const message = !(error instanceof ValidationStoppedError)
+          ? 'Cancelled before completion'
+          : error.reason === 'time_slice' ? 'Paused until the next worker run' : 'Stopped before completion';
+        await this.updateStepStatus(def.step, 'pending', message);
+        throw error;
+      }
+
+      console.error(`Step ${def.step} failed:`, error);
+      await this.updateStepStatus(def.step, 'failed', error instanceof Error ? error.message : 'Step failed');
+      throw error;
+    }
+  }
+
+  // Why the run has to stop now, if it does: the worker gave it up, or the user cancelled
+  private async stopError(): Promise<ValidationCancelledError | null> {
+    if (this.signal?.aborted) {
+      return this.signal.reason instanceof ValidationStoppedError
+        ? this.signal.reason
+        : new ValidationStoppedError(this.validationId, 'claim_lost');
+    }
+    return await isValidationCancelled(this.validationId) ? new ValidationCancelledError(this.validationId) : null;
+  }
+
+  private async throwIfStopped(): Promise<void> {
+    const stop = await this.stopError();
+    if (stop) throw stop;
+  }
+
+  // Another worker owns the job now, so nothing this run does may be saved
+  private claimLost(): boolean {
+    return !!this.signal?.aborted && this.signal.reason instanceof ValidationStoppedError && this.signal.reason.reason === 'claim_lost';
+  }
+
+  private output(id: string): any {
+    return this.results[id]?.data;
+  }
+
+  // Step 1: Extract Keywords (with AI subreddit intelligence)
+  private async extractKeywords(): Promise<ProcessingResult> {
+    console.log('🔍 Using AI to find best Reddit communities and keywords...');
+
+    // Refined idea data is required to get smart subreddit recommendations
+    if (!this.refinedIdeaData) {
+      throw new Error('Refined idea data REQUIRED - no fallback available');
+    }
+
+    console.log('🎯 Using refined idea data for intelligent Reddit targeting...');
+
+    let aiKeywordData;
+    try {
+      // Call the keyword generation model directly instead of using fetch
+      const llm = getLLMClient('keywords', { validationId: this.validationId, prompt: 'subredditDiscovery' });
+
+      const prompt = renderPrompt('subredditDiscovery', {
+        oneLiner: this.refinedIdeaData.oneLiner,
+        targetAudience: this.refinedIdeaData.targetAudience,
+        problemSolved: this.refinedIdeaData.problem
       });
 
-      moatData = moatResult.data;
-      await this.updateStepStatus(7, 'completed', `Moat Score: ${moatData.moatScore}/100, ${moatData.defensibilityFactors.length} factors identified`);
+      const { text: aiText } = await llm.generate(prompt);
+
+      console.log('🤖 AI response for keywords:', aiText.substring(0, 200) + '...');
 
-      // Step 8: AI UVZ Research
-      let uvzData: any;
-      const uvzResult = await this.executeStep(8, async () => {
-        console.log('🎯 AI researching unique value zone and competitive differentiation...');
-        
-        if (!this.refinedIdeaData) {
-          throw new Error('Refined idea data required for AI UVZ research');
+      // Parse the JSON response with error handling
+      try {
+        let cleanText = aiText.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
+
+        // Try to extract JSON if it's embedded in other text
+        const jsonMatch = cleanText.match(/\{[\s\S]*\}/);
+        if (jsonMatch) {
+          cleanText = jsonMatch[0];
         }
-        
-        const aiUVZData = await researchUniqueValueZone(
-          this.refinedIdeaData.oneLiner,
-          this.refinedIdeaData.targetAudience,
-          this.refinedIdeaData.problem
-        );
-        
-        return {
-          success: true,
-          data: aiUVZData,
-          dataPoints: aiUVZData.competitiveAdvantages.length
-        };
-      });
 
-      uvzData = uvzResult.data;
-      await this.updateStepStatus(8, 'completed', `UVZ Score: ${uvzData.uniquenessScore}/100, ${uvzData.competitiveAdvantages.length} advantages identified`);
-
-      // Step 9: Generate AI Analysis  
-      await this.executeStep(9, async () => {
-        console.log('🤖 Running AI analysis on collected data...');
-        const result = await analyzeStartupWithBestAI({
-          idea: this.ideaDescription,
-          industry: '',
-          targetMarket: '',
-          redditInsights: redditData,
-          trendsData: null
-        }, AIProvider.GEMINI);
-        
-        aiAnalysis = result.analysis;
-        await this.updateStepStatus(9, 'completed', `AI analysis completed using ${result.provider}`);
-        return { success: true, data: aiAnalysis, dataPoints: 1 };
+        aiKeywordData = JSON.parse(cleanText);
+      } catch (keywordParseError) {
+        console.error('❌ Failed to parse AI keyword response:', keywordParseError);
+        console.error('Raw AI keyword response:', aiText);
+        throw new Error(`Failed to parse AI keyword response as JSON: ${keywordParseError instanceof Error ? keywordParseError.message : 'Unknown parse error'}`);
+      }
+
+      if (!aiKeywordData.recommendedSubreddits || !aiKeywordData.searchKeywords || !aiKeywordData.focusQueries) {
+        throw new Error('AI returned incomplete keyword data');
+      }
+
+      console.log('✅ AI recommended', aiKeywordData.recommendedSubreddits.length, 'subreddits');
+
+      // Save debug data for AI keyword generation
+      await saveAIKeywordDebug(this.validationId, {
+        refinedIdeaInput: this.refinedIdeaData,
+        aiResponse: aiKeywordData,
+        success: true,
+        rawAIText: aiText
       });
 
-      // Step 10: Calculate Final Scores & Generate Report
-      const finalResult = await this.executeStep(10, async () => {
-        console.log('📊 Calculating final scores from real data...');
-        
-        // Calculate real validation scores
-        const realScores = calculateRealValidationScore(redditData, null);
-        
-        // Generate evidence report
-        const evidenceReport = generateEvidenceReport(redditData, null, aiAnalysis, this.ideaDescription);
-        const formattedReport = formatEvidenceReport(evidenceReport, this.ideaDescription);
-        
-        const totalDataPoints = (redditData?.realData?.totalMentions || 0) + 
-                               (competitorData?.competitors?.length || 0);
-
-        const finalScore = {
-          overall: realScores.overall.score,
-          grade: realScores.overall.grade,
-          marketDemand: realScores.marketDemand.score,
-          competition: realScores.competition.score,
-          confidence: realScores.overall.confidence,
-          evidenceReport,
-          formattedReport,
-          realData: {
-            redditMentions: redditData?.realData?.totalMentions || 0,
-            frustratedUsers: redditData?.realData?.frustratedUsers || 0,
-            competitorsFound: competitorData?.competitors?.length || 0,
-            totalDataPoints
-          }
-        };
+    } catch (aiError) {
+      console.error('❌ AI keyword generation failed:', aiError);
 
-        await this.updateStepStatus(10, 'completed', `Validation complete! Grade: ${finalScore.grade} (${totalDataPoints} data points analyzed)`);
-        
-        return { success: true, data: finalScore, dataPoints: totalDataPoints };
+      // Save debug data for failed AI keyword generation
+      await saveAIKeywordDebug(this.validationId, {
+        refinedIdeaInput: this.refinedIdeaData,
+        aiResponse: { recommendedSubreddits: [], searchKeywords: [], focusQueries: [] },
+        success: false,
+        error: aiError instanceof Error ? aiError.message : 'Unknown AI error'
       });
 
-      console.log('✅ Validation pipeline completed successfully');
+      throw aiError;
+    }
+
+    // Drop hallucinated, private or dead communities before step 2 spends requests on them
+    const { oneLiner, targetAudience, problem } = this.refinedIdeaData;
+    const resolution = await resolveSubreddits(
+      aiKeywordData.recommendedSubreddits,
+      getSubstituteSubreddits(`${oneLiner} ${targetAudience} ${problem}`)
+    );
+    await saveDebugLog(this.validationId, 'subreddit-resolution', {
+      recommended: aiKeywordData.recommendedSubreddits.map((s: any) => s.name),
+      accepted: resolution.accepted,
+      rejected: resolution.rejected,
+      substituted: resolution.substituted
+    }, resolution.accepted.length > 0);
+    if (resolution.accepted.length === 0) {
+      throw new Error('None of the recommended subreddits exist or are active enough to search');
+    }
+    aiKeywordData.recommendedSubreddits = resolution.accepted;
+
+    const keywords: string[] = aiKeywordData.searchKeywords;
+
+    return {
+      success: true,
+      data: { keywords, aiKeywordData },
+      dataPoints: keywords.length + (aiKeywordData?.recommendedSubreddits?.length || 0),
+      message: `AI found ${aiKeywordData.recommendedSubreddits.length} target subreddits + ${keywords.length} keywords`
+        + (resolution.rejected.length > 0 ? ` (${resolution.rejected.length} invalid dropped)` : '')
+    };
+  }
+
+  // Step 2: Search every evidence source with AI-powered targeting
+  private async searchReddit(): Promise<ProcessingResult> {
+    console.log('📡 Searching discussion sources with AI intelligence...');
+
+    const { keywords, aiKeywordData } = this.output('keywords');
+    if (!aiKeywordData) {
+      throw new Error('AI keyword generation required for refined idea validation');
+    }
+    // Refined idea data is required for the AI content analysis - NO FALLBACKS
+    if (!this.refinedIdeaData) {
+      throw new Error('Refined idea data required for AI content analysis');
+    }
+
+    // Use AI-recommended subreddits and queries + pass refined idea data for AI analysis
+    console.log('🎯 Using AI-recommended subreddits:', aiKeywordData.recommendedSubreddits.map((s: any) => s.name).join(', '));
+    const data = await searchDiscussions({
+      validationId: this.validationId,
+      idea: this.ideaDescription,
+      keywords,
+      refinedIdea: this.refinedIdeaData,
+      recommendedSubreddits: aiKeywordData.recommendedSubreddits,
+      focusQueries: aiKeywordData.focusQueries || [],
+      painPointQueries: aiKeywordData.painPointQueries || [],
+      searchOptions: this.searchOptions,
+      checkCancelled: () => this.throwIfStopped()
+    });
+
+    const mentions = data.realData?.totalMentions || 0;
+    const cacheHits = data.searchCache?.hits || 0;
+    return {
+      success: true, // Always continue pipeline even with 0 mentions
+      data,
+      dataPoints: mentions,
+      message: `Found ${mentions} real discussions`
+        + (data.sources && data.sources.length > 1 ? ` across ${data.sources.filter(source => source.itemsFound > 0).map(source => source.label).join(', ')}` : '')
+        + (cacheHits > 0 ? ` (${cacheHits}/${data.searchCache?.searches} searches from cache)` : '')
+    };
+  }
+
+  // Step 3: Analyze Sentiment (part of Reddit data)
+  private async analyzeSentiment(): Promise<ProcessingResult> {
+    console.log('😡 Analyzing sentiment of real posts...');
+
+    const redditData = this.output('reddit');
+    if (redditData?.realData) {
+      const frustrated = redditData.realData.frustratedUsers;
+      const total = redditData.realData.totalMentions;
+      const frustrationPercent = total > 0 ? Math.round((frustrated / total) * 100) : 0;
+
       return {
         success: true,
-        finalScore: finalResult.data,
-        competitorData: competitorData,
-        marketSizeData: marketSizeData,
-        scalabilityData: scalabilityData,
-        moatData: moatData,
-        uvzData: uvzData,
-        steps: this.steps,
-        totalDataPoints: finalResult.dataPoints
+        data: { frustrationPercent, frustrated, total },
+        dataPoints: total,
+        message: `${frustrationPercent}% of users frustrated with current solutions`
       };
+    }
 
-    } catch (error) {
-      console.error('❌ Validation pipeline failed:', error);
-      
-      // Mark current step as failed
-      const currentStep = this.steps.find(s => s.status === 'processing');
-      if (currentStep) {
-        await this.updateStepStatus(currentStep.step, 'failed', error instanceof Error ? error.message : 'Unknown error');
+    return {
+      success: true,
+      data: { frustrationPercent: 0, frustrated: 0, total: 0 },
+      dataPoints: 0,
+      message: 'No posts found - continuing with limited data analysis'
+    };
+  }
+
+  // Search interest is supporting evidence: when Google Trends is unavailable the scores and
+  // report fall back to discussion data instead of failing the validation
+  private async fetchTrends(): Promise<ProcessingResult> {
+    console.log('📈 Fetching Google Trends data...');
+
+    const keywords: string[] = this.output('keywords')?.keywords || [];
+    try {
+      const trendsData = await fetchTrendsForKeywords(keywords.slice(0, MAX_TRENDS_KEYWORDS));
+      if (!trendsData) {
+        return {
+          success: true,
+          data: null,
+          dataPoints: 0,
+          message: 'No measurable search interest for the idea\'s keywords'
+        };
       }
 
       return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Pipeline execution failed',
-        steps: this.steps
+        success: true,
+        data: trendsData,
+        dataPoints: trendsData.searchVolume.length,
+        message: `"${trendsData.keyword}": ${trendsData.growthRate > 0 ? '+' : ''}${trendsData.growthRate.toFixed(1)}% search interest over 12 months`
+      };
+    } catch (error) {
+      console.warn('⚠️ Google Trends unavailable:', error instanceof Error ? error.message : error);
+      await saveDebugLog(this.validationId, 'google-trends', { keywords: keywords.slice(0, MAX_TRENDS_KEYWORDS) }, false,
+        error instanceof Error ? error.message : 'Unknown error');
+      return {
+        success: true,
+        data: null,
+        dataPoints: 0,
+        message: 'Google Trends unavailable - continuing with discussion data'
       };
     }
   }
 
-  private async executeStep(stepNumber: number, stepFunction: () => Promise<ProcessingResult>): Promise<ProcessingResult> {
-    const step = this.steps.find(s => s.step === stepNumber);
-    if (!step) throw new Error(`Step ${stepNumber} not found`);
+  // Steps 4+: registered research modules
+  private async runResearchModule(researchModule: ResearchModule): Promise<ProcessingResult> {
+    if (!this.refinedIdeaData) {
+      throw new Error(`Refined idea data required for ${researchModule.title}`);
+    }
 
-    // Mark step as processing
-    await this.updateStepStatus(stepNumber, 'processing');
+    const outputs: { [stepId: string]: any } = {};
+    for (const input of researchModule.inputs) {
+      outputs[input] = this.output(input);
+    }
 
-    try {
-      const result = await stepFunction();
-      return result;
-    } catch (error) {
-      console.error(`Step ${stepNumber} failed:`, error);
-      await this.updateStepStatus(stepNumber, 'failed', error instanceof Error ? error.message : 'Step failed');
-      throw error;
+    const data = await researchModule.run({
+      validationId: this.validationId,
+      ideaDescription: this.ideaDescription,
+      refinedIdea: this.refinedIdeaData,
+      outputs
+    });
+
+    // Check the output shape before it is checkpointed and saved on the validation
+    const parsed = researchModule.outputSchema.safeParse(data);
+    if (!parsed.success) {
+      const issues = parsed.error.issues.map(e => `${e.path.join('.')}: ${e.message}`).join(', ');
+      throw new Error(`${researchModule.title} returned invalid data: ${issues}`);
+    }
+
+    const { message, dataPoints } = researchModule.summarize(data);
+    return { success: true, data, dataPoints, message };
+  }
+
+  // Versions of the prompts behind each step's output; restored steps keep the versions they ran with
+  private getPromptVersions(): PromptVersions {
+    const versions: PromptVersions = {};
+    for (const checkpoint of Object.values(this.checkpoints)) {
+      Object.assign(versions, checkpoint.promptVersions);
+    }
+    return versions;
+  }
+
+  // Research outputs keyed by the validation field each module is stored under
+  private getResearchResults(): Partial<ValidationRequest> {
+    const research: { [key: string]: any } = {};
+    for (const researchModule of getResearchModules()) {
+      research[researchModule.resultKey] = this.output(researchModule.id);
     }
+    return research;
+  }
+
+  // Generate AI Analysis
+  private async generateAIAnalysis(): Promise<ProcessingResult> {
+    console.log('🤖 Running AI analysis on collected data...');
+
+    const result = await analyzeStartupWithBestAI({
+      idea: this.ideaDescription,
+      industry: '',
+      targetMarket: '',
+      redditInsights: this.output('reddit'),
+      trendsData: this.output('trends')
+    }, { validationId: this.validationId });
+
+    return {
+      success: true,
+      data: result.analysis,
+      dataPoints: 1,
+      message: `AI analysis completed using ${result.provider}`
+    };
+  }
+
+  // Final step: Calculate Scores & Generate Report
+  private async calculateScores(): Promise<ProcessingResult> {
+    console.log('📊 Calculating final scores from real data...');
+
+    const redditData = this.output('reddit');
+    const trendsData = this.output('trends') || null;
+    const competitorData = this.output('competitors');
+    const aiAnalysis = this.output('aiAnalysis');
+
+    // Calculate real validation scores
+    const realScores = calculateRealValidationScore(redditData, trendsData);
+
+    // Generate evidence report
+    const evidenceReport = generateEvidenceReport(redditData, trendsData, aiAnalysis, this.ideaDescription);
+    const formattedReport = formatEvidenceReport(evidenceReport, this.ideaDescription);
+
+    const totalDataPoints = (redditData?.realData?.totalMentions || 0) +
+                           (competitorData?.competitors?.length || 0);
+
+    const finalScore = {
+      overall: realScores.overall.score,
+      grade: realScores.overall.grade,
+      marketDemand: realScores.marketDemand.score,
+      competition: realScores.competition.score,
+      ...(realScores.trends && { trends: realScores.trends.score }),
+      confidence: realScores.overall.confidence,
+      evidenceReport,
+      formattedReport,
+      realData: {
+        redditMentions: redditData?.realData?.totalMentions || 0,
+        frustratedUsers: redditData?.realData?.frustratedUsers || 0,
+        competitorsFound: competitorData?.competitors?.length || 0,
+        trendsKeyword: trendsData?.keyword,
+        totalDataPoints
+      }
+    };
+
+    return {
+      success: true,
+      data: finalScore,
+      dataPoints: totalDataPoints,
+      message: `Validation complete! Grade: ${finalScore.grade} (${totalDataPoints} data points analyzed)`
+    };
   }
 
   private async updateStepStatus(stepNumber: number, status: ProcessingStep['status'], description?: string, dataFound?: number) {
@@ -616,28 +702,174 @@ Select 6-8 diverse subreddits covering:
     step.status = status;
     if (description) step.description = description;
     if (dataFound !== undefined) step.dataFound = dataFound;
+    if (status === 'failed') step.errorMessage = description;
+
+    // Timestamps let the progress page show how long each step took
+    const now = new Date().toISOString();
+    if (status === 'processing') {
+      step.startedAt = now;
+      step.finishedAt = undefined;
+    } else if (status === 'completed' || status === 'failed') {
+      step.finishedAt = now;
+    } else {
+      step.startedAt = undefined;
+      step.finishedAt = undefined;
+    }
 
-    // Update validation progress in database
-    const currentStep = this.steps.find(s => s.status === 'processing') || 
-                       this.steps.find(s => s.status === 'completed' && s.step === stepNumber);
-    
-    if (currentStep) {
-      await updateValidation(this.validationId, {
-        progress: currentStep.progress,
-        currentStep: currentStep.description,
-        processingSteps: this.steps
-      });
+    const updates: Partial<ValidationRequest> = {
+      progress: this.getProgress(),
+      currentStep: this.describeCurrentActivity(),
+      processingSteps: this.steps,
+      estimatedCompletionAt: new Date(Date.now() + this.estimateRemainingMs()).toISOString()
+    };
+    if (status === 'completed' && this.checkpoints[step.id]) {
+      updates.stepCheckpoints = this.checkpoints;
     }
 
+    await this.persist(updates);
+    publishValidationEvent(this.validationId, {
+      type: 'step',
+      step: { ...step },
+      progress: updates.progress!,
+      currentStep: updates.currentStep!,
+      estimatedCompletionAt: updates.estimatedCompletionAt
+    });
+
     console.log(`Step ${stepNumber}: ${status.toUpperCase()} - ${description}`);
   }
 
+  private persist(updates: Partial<ValidationRequest>): Promise<unknown> {
+    if (this.claimLost()) return this.persistQueue;
+    this.persistQueue = this.persistQueue
+      .then(() => updateValidation(this.validationId, updates))
+      .catch(error => console.error('Failed to persist pipeline state:', error));
+    return this.persistQueue;
+  }
+
+  // Overall progress is the weighted share of completed steps, so parallel steps add up correctly
+  public getProgress(): number {
+    const totalWeight = this.steps.reduce((sum, s) => sum + s.weight, 0);
+    const completedWeight = this.steps
+      .filter(s => s.status === 'completed')
+      .reduce((sum, s) => sum + s.weight, 0);
+    return totalWeight > 0 ? Math.round((completedWeight / totalWeight) * 100) : 0;
+  }
+
+  private describeCurrentActivity(): string {
+    const processing = this.steps.filter(s => s.status === 'processing');
+    if (processing.length === 1) return processing[0].description;
+    if (processing.length > 1) {
+      return `Running ${processing.length} steps in parallel: ${processing.map(s => s.title).join(', ')}`;
+    }
+    return this.getCurrentStep()?.description || 'Preparing analysis...';
+  }
+
+  // Once keywords are known, size the Reddit step by the searches it will actually run
+  private planWork(completedId: string) {
+    if (completedId !== 'keywords') return;
+
+    const aiKeywordData = this.output('keywords')?.aiKeywordData;
+    if (!aiKeywordData) return;
+
+    const subreddits = aiKeywordData.recommendedSubreddits?.length || 0;
+    const queries = Math.min(
+      MAX_SEARCH_QUERIES,
+      (aiKeywordData.focusQueries?.length || 0) + (aiKeywordData.painPointQueries?.length || 0)
+    );
+    if (subreddits > 0 && queries > 0) {
+      this.plannedUnits.reddit = subreddits * queries * resolveSearchOptions(this.searchOptions).maxPages;
+    }
+  }
+
+  private expectedDurationMs(id: string): number {
+    const stats = this.durationStats[id];
+    const units = this.plannedUnits[id];
+
+    if (stats) {
+      return units ? stats.medianPerUnitMs * units : stats.medianMs;
+    }
+    if (id === 'reddit' && units) {
+      return DEFAULT_REDDIT_QUERY_MS * units;
+    }
+    return DEFAULT_STEP_DURATION_MS[id] ?? DEFAULT_RESEARCH_DURATION_MS;
+  }
+
+  // Replays the scheduler over the unfinished steps with their median durations,
+  // so parallel branches and the concurrency limit are reflected in the estimate
+  public estimateRemainingMs(): number {
+    const now = Date.now();
+    const done = new Set(this.steps.filter(s => s.status === 'completed').map(s => s.id));
+    const running = this.steps
+      .filter(s => s.status === 'processing')
+      .map(s => {
+        const elapsed = s.startedAt ? now - new Date(s.startedAt).getTime() : 0;
+        return { id: s.id, finishAt: Math.max(0, this.expectedDurationMs(s.id) - elapsed) };
+      });
+    const queued = this.definitions.filter(def => !done.has(def.id) && !running.some(r => r.id === def.id));
+
+    let clock = 0;
+    while (queued.length > 0 || running.length > 0) {
+      for (let i = 0; i < queued.length && running.length < this.concurrency;) {
+        const def = queued[i];
+        if (def.dependsOn.every(dep => done.has(dep))) {
+          running.push({ id: def.id, finishAt: clock + this.expectedDurationMs(def.id) });
+          queued.splice(i, 1);
+        } else {
+          i++;
+        }
+      }
+
+      if (running.length === 0) break; // Remaining steps are blocked by a failure
+      running.sort((a, b) => a.finishAt - b.finishAt);
+      const next = running.shift()!;
+      clock = next.finishAt;
+      done.add(next.id);
+    }
+
+    return clock;
+  }
+
+  // Estimate for a full run, used before the pipeline has started
+  public async estimateTotalMinutes(): Promise<number> {
+    this.durationStats = await loadStepDurationStats();
+    return Math.max(1, Math.ceil(this.estimateRemainingMs() / 60000));
+  }
+
+  // Only checkpoints saved under the id of a current step are restored. Records from before
+  // checkpoints were keyed by id are keyed by step number, which may now belong to another step,
+  // so those steps run again.
+  private usableCheckpoints(checkpoints: { [stepId: string]: StepCheckpoint }): { [stepId: string]: StepCheckpoint } {
+    const usable: { [stepId: string]: StepCheckpoint } = {};
+    for (const [key, checkpoint] of Object.entries(checkpoints)) {
+      if (checkpoint?.stepId === key && this.definitions.some(def => def.id === key)) {
+        usable[key] = checkpoint;
+      } else {
+        console.log(`♻️ Ignoring checkpoint "${key}" saved under an older step layout`);
+      }
+    }
+    return usable;
+  }
+
+  // First step that has no saved checkpoint, i.e. where a resumed run picks up
+  public getResumeStep(): ProcessingStep | undefined {
+    return this.steps.find(s => !this.checkpoints[s.id]);
+  }
+
+  // Steps a resumed run restores from their checkpoints instead of running again
+  public getCheckpointedSteps(): ProcessingStep[] {
+    return this.steps.filter(s => this.checkpoints[s.id]);
+  }
+
   public getSteps(): ProcessingStep[] {
     return this.steps;
   }
 
+  public getRunningSteps(): ProcessingStep[] {
+    return this.steps.filter(s => s.status === 'processing');
+  }
+
   public getCurrentStep(): ProcessingStep | undefined {
-    return this.steps.find(s => s.status === 'processing') || 
+    return this.steps.find(s => s.status === 'processing') ||
            this.steps.find(s => s.status === 'completed' && s.step === Math.max(...this.steps.filter(s => s.status === 'completed').map(s => s.step)));
   }
-}
\ No newline at end of file
+}
@@ -3,6 +3,7 @@ import { RedditInsight, TrendsData, AIAnalysis } from '@/types/validation';
 export interface ValidationEvidence {
   socialIntelligence: {
     postsFound: number;
+    sources: Array<{ id: string; label: string; itemsFound: number }>;
     topQuotes: Array<{
       quote: string;
       author: string;
@@ -10,6 +11,8 @@ export interface ValidationEvidence {
       upvotes: number;
       url: string;
       sentiment: 'frustrated' | 'neutral' | 'satisfied';
+      verified?: boolean;
+      origin: string;
     }>;
     sentimentBreakdown: {
       frustratedPercent: number;
@@ -20,6 +23,8 @@ export interface ValidationEvidence {
     evidenceSummary: string[];
   };
   marketData: {
+    basedOn: 'googleTrends' | 'discussions';
+    keyword?: string;        // Search term the Trends data is for
     growthRate: number;
     timeframe: string;
     searchVolume: number[];
@@ -37,6 +42,7 @@ export interface ValidationEvidence {
       about: string;
       author: string;
       subreddit: string;
+      origin: string;
     }>;
     identifiedGaps: string[];
     evidenceSummary: string[];
@@ -72,10 +78,29 @@ export function generateEvidenceReport(
   };
 }
 
+// Records from before there were several sources only hold Reddit quotes
+function quoteOrigin(quote: { origin?: string }): string {
+  return quote.origin || 'reddit';
+}
+
+function sourceLabel(redditData: RedditInsight, origin: string): string {
+  return redditData.sources?.find(source => source.id === origin)?.label || (origin === 'reddit' ? 'Reddit' : origin);
+}
+
+// "u/name in r/community" for Reddit, "name on <source>" elsewhere
+function formatAttribution(evidence: ValidationEvidence, author: string, community: string, origin: string): string {
+  if (origin === 'reddit') return `u/${author} in r/${community}`;
+  const label = evidence.socialIntelligence.sources.find(source => source.id === origin)?.label || origin;
+  return `${author} on ${label}`;
+}
+
 // Section 1 - Social Intelligence Evidence
 function generateSocialIntelligenceEvidence(redditData: RedditInsight): ValidationEvidence['socialIntelligence'] {
   const postsFound = redditData.realData?.totalMentions || 0;
   const topQuotes = redditData.realData?.topQuotes || [];
+  const sources = redditData.sources
+    ? redditData.sources.map(({ id, label, itemsFound }) => ({ id, label, itemsFound }))
+    : [{ id: 'reddit', label: 'Reddit', itemsFound: postsFound }];
   
   // Get top 3 most upvoted quotes as evidence
   const top3Quotes = topQuotes
@@ -86,8 +111,10 @@ function generateSocialIntelligenceEvidence(redditData: RedditInsight): Validati
       author: quote.author,
       subreddit: quote.subreddit,
       upvotes: quote.upvotes,
-      url: `https://reddit.com/r/${quote.subreddit}`, // Simplified URL
-      sentiment: quote.sentiment
+      url: quote.url || (quoteOrigin(quote) === 'reddit' ? `https://reddit.com/r/${quote.subreddit}` : ''),
+      sentiment: quote.sentiment,
+      verified: quote.verified,
+      origin: quoteOrigin(quote)
     }));
 
   // Calculate real sentiment breakdown
@@ -107,7 +134,8 @@ function generateSocialIntelligenceEvidence(redditData: RedditInsight): Validati
   const evidenceSummary: string[] = [];
   
   if (postsFound > 0) {
-    evidenceSummary.push(`Found ${postsFound} Reddit posts discussing this problem across multiple communities`);
+    const quotedSources = [...new Set(topQuotes.map(quote => sourceLabel(redditData, quoteOrigin(quote))))];
+    evidenceSummary.push(`Found ${postsFound} posts discussing this problem on ${quotedSources.join(', ') || 'Reddit'}`);
     
     if (sentimentBreakdown.frustratedPercent > 50) {
       evidenceSummary.push(`${sentimentBreakdown.frustratedPercent}% of users expressed frustration with current solutions`);
@@ -122,11 +150,12 @@ function generateSocialIntelligenceEvidence(redditData: RedditInsight): Validati
       evidenceSummary.push(`${highEngagementQuotes.length} highly-upvoted posts (10+ upvotes) validate the problem`);
     }
   } else {
-    evidenceSummary.push('Limited Reddit discussion found - may indicate niche market or low awareness');
+    evidenceSummary.push('Limited discussion found - may indicate niche market or low awareness');
   }
 
   return {
     postsFound,
+    sources,
     topQuotes: top3Quotes,
     sentimentBreakdown,
     evidenceSummary
@@ -163,6 +192,7 @@ function generateRedditBasedMarketData(redditData: RedditInsight): ValidationEvi
   }
 
   return {
+    basedOn: 'discussions',
     growthRate: mentions > 100 ? 15 : mentions > 50 ? 5 : 0, // Estimated based on discussion volume
     timeframe: 'Recent discussions',
     searchVolume: Array(12).fill(mentions > 100 ? 75 : mentions > 50 ? 50 : 25), // Simulated trend
@@ -221,6 +251,8 @@ function generateMarketDataEvidence(trendsData: TrendsData): ValidationEvidence[
   }
 
   return {
+    basedOn: 'googleTrends',
+    keyword: trendsData.keyword,
     growthRate,
     timeframe: '12 months',
     searchVolume,
@@ -380,24 +412,14 @@ function analyzeRecentTrend(searchVolume: number[]): 'rising' | 'declining' | 's
   return 'stable';
 }
 
-function extractCompetitorComplaints(quotes: any[]): Array<{
-  complaint: string;
-  about: string;
-  author: string;
-  subreddit: string;
-}> {
+function extractCompetitorComplaints(quotes: any[]): ValidationEvidence['competitionAnalysis']['userComplaints'] {
   const complaintKeywords = [
     'disappointed with', 'problems with', 'issues with', 'hate using',
     'terrible experience', 'doesn\'t work', 'unreliable', 'broken',
     'frustrated with', 'switch from', 'alternative to'
   ];
   
-  const complaints: Array<{
-    complaint: string;
-    about: string;
-    author: string;
-    subreddit: string;
-  }> = [];
+  const complaints: ValidationEvidence['competitionAnalysis']['userComplaints'] = [];
   
   quotes.forEach(quote => {
     const text = quote.quote.toLowerCase();
@@ -409,7 +431,8 @@ function extractCompetitorComplaints(quotes: any[]): Array<{
           complaint: quote.quote,
           about: about || 'existing solution',
           author: quote.author,
-          subreddit: quote.subreddit
+          subreddit: quote.subreddit,
+          origin: quoteOrigin(quote)
         });
       }
     });
@@ -522,14 +545,18 @@ export function formatEvidenceReport(evidence: ValidationEvidence, ideaDescripti
   report += `**Data Quality**: ${evidence.overallEvidence.confidenceLevel} confidence (${evidence.overallEvidence.dataQuality}% data completeness)\n\n`;
 
   // Section 1 - Social Intelligence
-  report += `## 1. Social Intelligence - PROOF FROM REDDIT\n\n`;
-  report += `**Found ${evidence.socialIntelligence.postsFound} Reddit posts** discussing this problem\n\n`;
+  report += `## 1. Social Intelligence - PROOF FROM USER DISCUSSIONS\n\n`;
+  report += `**Found ${evidence.socialIntelligence.postsFound} posts** discussing this problem\n\n`;
+  const searchedSources = evidence.socialIntelligence.sources.filter(source => source.itemsFound > 0);
+  if (searchedSources.length > 0) {
+    report += `**Sources:** ${searchedSources.map(source => `${source.label} (${source.itemsFound} posts searched)`).join(', ')}\n\n`;
+  }
   
   if (evidence.socialIntelligence.topQuotes.length > 0) {
     report += `**Top User Quotes (with sources):**\n\n`;
     evidence.socialIntelligence.topQuotes.forEach((quote, i) => {
       report += `${i + 1}. *"${quote.quote}"*\n`;
-      report += `   - u/${quote.author} in r/${quote.subreddit} (${quote.upvotes} upvotes)\n`;
+      report += `   - ${formatAttribution(evidence, quote.author, quote.subreddit, quote.origin)} (${quote.upvotes} upvotes)\n`;
       const sentimentText = quote.sentiment && typeof quote.sentiment === 'string' ? quote.sentiment.toUpperCase() : 'NEUTRAL';
       report += `   - Sentiment: ${sentimentText}\n\n`;
     });
@@ -543,7 +570,9 @@ export function formatEvidenceReport(evidence: ValidationEvidence, ideaDescripti
   report += `- ${breakdown.seekingSolutions} users actively seeking better solutions\n\n`;
 
   // Section 2 - Market Data  
-  report += `## 2. Market Data - USER DISCUSSION ANALYSIS\n\n`;
+  report += evidence.marketData.basedOn === 'googleTrends'
+    ? `## 2. Market Data - GOOGLE TRENDS (search interest for "${evidence.marketData.keyword}")\n\n`
+    : `## 2. Market Data - USER DISCUSSION ANALYSIS\n\n`;
   report += `**Market Growth**: ${evidence.marketData.growthRate > 0 ? '+' : ''}${evidence.marketData.growthRate.toFixed(1)}% based on ${evidence.marketData.timeframe}\n\n`;
   
   if (evidence.marketData.peakInterest.length > 0) {
@@ -571,7 +600,7 @@ export function formatEvidenceReport(evidence: ValidationEvidence, ideaDescripti
     evidence.competitionAnalysis.userComplaints.forEach((complaint, i) => {
       report += `${i + 1}. *"${complaint.complaint}"*\n`;
       report += `   - About: ${complaint.about}\n`;
-      report += `   - u/${complaint.author} in r/${complaint.subreddit}\n\n`;
+      report += `   - ${formatAttribution(evidence, complaint.author, complaint.subreddit, complaint.origin)}\n\n`;
     });
   }
   
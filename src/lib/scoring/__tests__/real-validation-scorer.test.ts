@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { RedditInsight, TrendsData } from '@/types/validation';
+import { calculateRealValidationScore, calculateTrendsScore } from '../real-validation-scorer';
+
+function quote(text: string, sentiment: 'frustrated' | 'neutral' | 'satisfied' = 'frustrated') {
+  return { quote: text, author: 'someone', subreddit: 'freelance', upvotes: 12, sentiment };
+}
+
+const discussions: RedditInsight = {
+  posts: [],
+  sentiment: 4,
+  painPoints: ['Chasing late invoices'],
+  discussionVolume: 20,
+  engagementLevel: 12,
+  score: 60,
+  realData: {
+    totalMentions: 20,
+    frustratedUsers: 12,
+    neutralUsers: 6,
+    satisfiedUsers: 2,
+    topQuotes: [
+      quote('I waste hours every month chasing invoices with our current tool'),
+      quote('Wish there was something that sends reminders for me'),
+      quote('Clients pay 60 days late and it costs me $500 in fees'),
+      quote('Looking for an alternative to spreadsheets', 'neutral'),
+      quote('Existing apps are broken and unreliable'),
+    ],
+  },
+};
+
+function trends(overrides: Partial<TrendsData> = {}): TrendsData {
+  return {
+    keyword: 'invoice reminders',
+    timeframe: '12 months',
+    searchVolume: [20, 25, 30, 35, 40, 45, 50, 55, 60, 65, 70, 75],
+    growthRate: 180,
+    relatedQueries: ['invoice reminder template'],
+    regionalInterest: { 'United States': 100 },
+    seasonality: 0.29,
+    consistency: 1,
+    score: 72,
+    ...overrides,
+  };
+}
+
+describe('calculateRealValidationScore', () => {
+  it('splits the overall score 60/40 between demand and competition without Trends data', () => {
+    const scores = calculateRealValidationScore(discussions);
+
+    expect(scores.trends).toBeUndefined();
+    expect(scores.overall.score).toBe(Math.round(scores.marketDemand.score * 0.6 + scores.competition.score * 0.4));
+  });
+
+  it('gives search interest a quarter of the overall score when Trends data is present', () => {
+    const scores = calculateRealValidationScore(discussions, trends());
+
+    expect(scores.trends).toEqual({
+      score: 72,
+      details: { keyword: 'invoice reminders', averageInterest: 48, growthRate: 180, consistency: 1 },
+    });
+    expect(scores.overall.score).toBe(Math.round(
+      scores.marketDemand.score * 0.45 + scores.competition.score * 0.3 + 72 * 0.25
+    ));
+  });
+
+  it('moves the overall score with search interest', () => {
+    const strong = calculateRealValidationScore(discussions, trends({ score: 100 }));
+    const weak = calculateRealValidationScore(discussions, trends({ score: 0 }));
+
+    expect(strong.overall.score - weak.overall.score).toBe(25);
+  });
+
+  it('ignores Trends data without any interest points', () => {
+    const withoutTrends = calculateRealValidationScore(discussions);
+    const emptyTrends = calculateRealValidationScore(discussions, trends({ searchVolume: [] }));
+    const flatTrends = calculateRealValidationScore(discussions, trends({ searchVolume: Array(12).fill(0) }));
+
+    expect(emptyTrends.trends).toBeUndefined();
+    expect(emptyTrends.overall).toEqual(withoutTrends.overall);
+    expect(flatTrends.trends).toBeUndefined();
+    expect(flatTrends.overall).toEqual(withoutTrends.overall);
+  });
+
+  it('raises confidence more for consistent search interest', () => {
+    const base = calculateRealValidationScore(discussions).overall.confidence;
+
+    expect(calculateRealValidationScore(discussions, trends({ consistency: 0.75 })).overall.confidence).toBe(base + 10);
+    expect(calculateRealValidationScore(discussions, trends({ consistency: 0.25 })).overall.confidence).toBe(base + 5);
+    expect(calculateRealValidationScore(discussions, trends({ searchVolume: Array(12).fill(0) })).overall.confidence).toBe(base);
+  });
+});
+
+describe('calculateTrendsScore', () => {
+  it('keeps the score within 0-100', () => {
+    expect(calculateTrendsScore(trends({ score: 140 })).score).toBe(100);
+    expect(calculateTrendsScore(trends({ score: -5 })).score).toBe(0);
+  });
+});
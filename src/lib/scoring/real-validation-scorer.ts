@@ -1,4 +1,4 @@
-import { RedditInsight } from '@/types/validation';
+import { RedditInsight, TrendsData } from '@/types/validation';
 
 export interface RealValidationScores {
   marketDemand: {
@@ -18,6 +18,15 @@ export interface RealValidationScores {
       opportunityGaps: number;
     };
   };
+  trends?: {
+    score: number;
+    details: {
+      keyword: string;
+      averageInterest: number;
+      growthRate: number;
+      consistency: number;
+    };
+  };
   overall: {
     score: number;
     grade: 'A' | 'B+' | 'B' | 'C' | 'D' | 'F';
@@ -113,7 +122,27 @@ export function calculateMarketDemandScore(redditData: RedditInsight): RealValid
   };
 }
 
-// Remove trend scoring - now using Reddit-only validation
+// Search Interest Score (0-100), from the Google Trends score of the idea's keyword
+export function calculateTrendsScore(trendsData: TrendsData): NonNullable<RealValidationScores['trends']> {
+  console.log('📈 Calculating Search Interest Score...');
+
+  const averageInterest = trendsData.searchVolume.length > 0
+    ? Math.round(trendsData.searchVolume.reduce((a, b) => a + b, 0) / trendsData.searchVolume.length)
+    : 0;
+
+  const score = Math.max(0, Math.min(100, Math.round(trendsData.score)));
+  console.log(`📈 Search Interest: ${score}/100 ("${trendsData.keyword}", ${trendsData.growthRate.toFixed(1)}% growth)`);
+
+  return {
+    score,
+    details: {
+      keyword: trendsData.keyword,
+      averageInterest,
+      growthRate: trendsData.growthRate,
+      consistency: trendsData.consistency
+    }
+  };
+}
 
 // REAL Competition Score (0-100)
 export function calculateCompetitionScore(redditData: RedditInsight): RealValidationScores['competition'] {
@@ -201,20 +230,23 @@ export function calculateCompetitionScore(redditData: RedditInsight): RealValida
 // Calculate Overall REAL Validation Score
 export function calculateRealValidationScore(
   redditData: RedditInsight, 
-  trendsData: any = null
+  trendsData: TrendsData | null = null
 ): RealValidationScores {
   
   console.log('🎯 Calculating REAL Overall Validation Score...');
   
-  // Calculate individual scores using REAL data (Reddit-focused)
+  // Calculate individual scores using REAL data (discussions, plus search interest when available)
   const marketDemand = calculateMarketDemandScore(redditData);
   const competition = calculateCompetitionScore(redditData);
+  const trends = trendsData && trendsData.searchVolume.some(value => value > 0) ? calculateTrendsScore(trendsData) : undefined;
   
-  // Weighted overall score (Reddit-only approach)
-  const weightedScore = (
-    marketDemand.score * 0.60 +  // 60% weight - Market demand is most important
-    competition.score * 0.40     // 40% weight - Competition landscape from Reddit
-  );
+  // Weighted overall score; without Trends data the discussion dimensions share its weight
+  const weightedScore = trends
+    ? marketDemand.score * 0.45 +  // 45% weight - Market demand is most important
+      competition.score * 0.30 +   // 30% weight - Competition landscape from discussions
+      trends.score * 0.25          // 25% weight - Search interest over the past year
+    : marketDemand.score * 0.60 +  // 60% weight - Market demand is most important
+      competition.score * 0.40;    // 40% weight - Competition landscape from discussions
   
   const overallScore = Math.round(weightedScore);
   
@@ -227,14 +259,15 @@ export function calculateRealValidationScore(
   else if (overallScore >= 50) grade = 'D';  // Weak but possible
   else grade = 'F'; // Poor validation
   
-  // Calculate confidence based on Reddit data quality only
-  const dataQuality = calculateDataQuality(redditData);
+  // Calculate confidence based on discussion data quality across sources, and search data
+  const dataQuality = calculateDataQuality(redditData, trendsData);
   
   console.log(`🎯 REAL Overall Score: ${overallScore}/100 (Grade: ${grade}) - Confidence: ${dataQuality}%`);
   
   return {
     marketDemand,
     competition,
+    ...(trends && { trends }),
     overall: {
       score: overallScore,
       grade,
@@ -243,10 +276,16 @@ export function calculateRealValidationScore(
   };
 }
 
-function calculateDataQuality(redditData: RedditInsight): number {
+// Evidence sources whose quotes made it into the analysis
+function countCorroboratingSources(redditData: RedditInsight): number {
+  const origins = new Set((redditData.realData?.topQuotes || []).map(quote => quote.origin || 'reddit'));
+  return origins.size;
+}
+
+function calculateDataQuality(redditData: RedditInsight, trendsData: TrendsData | null): number {
   let qualityScore = 0;
   
-  // Reddit data quality (0-100 points - stricter requirements)
+  // Discussion data quality (0-100 points - stricter requirements)
   if (redditData.realData && redditData.realData.totalMentions > 0) {
     qualityScore += 30; // Has real Reddit data
     
@@ -269,9 +308,17 @@ function calculateDataQuality(redditData: RedditInsight): number {
     if (avgUpvotes >= 15) qualityScore += 15; // High engagement
     else if (avgUpvotes >= 8) qualityScore += 10; // Good engagement
     else if (avgUpvotes >= 3) qualityScore += 5; // Some engagement
+
+    // The same problem showing up on more than one source is harder to dismiss
+    qualityScore += (countCorroboratingSources(redditData) - 1) * 10;
   } else {
     qualityScore = 10; // Very low score for no real data
   }
+
+  // Measured search interest backs up what people say
+  if (trendsData && trendsData.searchVolume.some(value => value > 0)) {
+    qualityScore += trendsData.consistency >= 0.5 ? 10 : 5;
+  }
   
   return Math.min(qualityScore, 100);
 }
@@ -293,6 +340,12 @@ export function formatScoreInsights(scores: RealValidationScores): string[] {
   if (scores.competition.details.opportunityGaps > 0) {
     insights.push(`${scores.competition.details.opportunityGaps} users actively looking for alternatives`);
   }
+
+  // Search interest insights
+  if (scores.trends) {
+    const { keyword, growthRate } = scores.trends.details;
+    insights.push(`Google searches for "${keyword}" ${growthRate >= 0 ? 'grew' : 'fell'} ${Math.abs(growthRate).toFixed(1)}% over the past year`);
+  }
   
   return insights;
 }
\ No newline at end of file
@@ -1,5 +1,8 @@
 import { promises as fs } from 'fs';
 import path from 'path';
+import { loadCostBreakdown } from '@/lib/ai/token-usage';
+import { EvidenceSourceSummary } from '@/types/validation';
+import { EvidenceQueryResult } from '@/lib/api/evidence-source';
 
 interface DebugEntry {
   validationId: string;
@@ -27,27 +30,24 @@ interface AIKeywordDebugData {
   rawAIText?: string;
 }
 
-interface RedditSearchDebugData {
-  inputKeywords: string[];
-  targetSubreddits: string[];
-  searchQueries: string[];
-  searchResults: {
-    subreddit: string;
-    query: string;
-    postsFound: number;
-    error?: string;
-  }[];
-  totalMentions: number;
-  frustratedUsers: number;
+interface EvidenceSearchDebugData {
+  source: string;
+  queries: EvidenceQueryResult[];
+  itemsFound: number;
   success: boolean;
   error?: string;
-  aiAnalysis?: {
-    totalPostsAnalyzed: number;
-    relevantQuotesFound: number;
-    overallSentiment: number;
-    frustrationLevel: number;
-    keyInsights: string[];
-  };
+  [details: string]: unknown;   // Source-specific settings, e.g. Reddit's client mode
+}
+
+interface EvidenceAnalysisDebugData {
+  sources: EvidenceSourceSummary[];
+  totalItemsAnalyzed: number;
+  relevantQuotesFound: number;
+  totalMentions: number;
+  frustratedUsers: number;
+  overallSentiment: number;
+  frustrationLevel: number;
+  keyInsights: string[];
 }
 
 const DEBUG_DIR = path.join(process.cwd(), 'debug-logs');
@@ -101,8 +101,13 @@ export async function saveAIKeywordDebug(validationId: string, data: AIKeywordDe
   await saveDebugLog(validationId, 'ai-keyword-generation', data, data.success, data.error);
 }
 
-export async function saveRedditSearchDebug(validationId: string, data: RedditSearchDebugData) {
-  await saveDebugLog(validationId, 'reddit-search', data, data.success, data.error);
+// Logged as "<source>-search", e.g. reddit-search
+export async function saveEvidenceSearchDebug(validationId: string, data: EvidenceSearchDebugData) {
+  await saveDebugLog(validationId, `${data.source}-search`, data, data.success, data.error);
+}
+
+export async function saveEvidenceAnalysisDebug(validationId: string, data: EvidenceAnalysisDebugData) {
+  await saveDebugLog(validationId, 'evidence-analysis', data, true);
 }
 
 export async function getDebugLogs(validationId: string): Promise<DebugEntry[]> {
@@ -142,7 +147,15 @@ export async function createDebugSummary(validationId: string) {
         }, {}) : log.data
     })),
     aiKeywordStep: logs.find(l => l.step === 'ai-keyword-generation'),
-    redditSearchStep: logs.find(l => l.step === 'reddit-search')
+    subredditResolution: logs.find(l => l.step === 'subreddit-resolution'),
+    redditSearchStep: logs.find(l => l.step === 'reddit-search'),
+    evidenceSearchSteps: logs.filter(l => l.step.endsWith('-search')),
+    evidenceAnalysis: logs.find(l => l.step === 'evidence-analysis'),
+    // Structured output attempts that needed repair or failed validation
+    aiOutputIssues: logs.filter(l => l.step.startsWith('ai-output-')),
+    // Model calls that were retried or given up on by the call policy
+    aiCallRetries: logs.filter(l => l.step.startsWith('ai-retry-') || l.step.startsWith('ai-giveup-')),
+    costBreakdown: await loadCostBreakdown(validationId)
   };
   
   return summary;
@@ -6,6 +6,26 @@ const DATA_DIR = path.join(process.cwd(), 'data');
 const VALIDATIONS_DIR = path.join(DATA_DIR, 'validations');
 const CACHE_DIR = path.join(DATA_DIR, 'cache');
 
+// Updates are load -> merge -> save, so two running at once would save a stale copy over each
+// other (e.g. a pipeline progress write undoing a cancel). They are serialized per validation;
+// kept on globalThis so every route and the worker share one set of locks.
+const globalForStorage = globalThis as unknown as { validationLocks?: Map<string, Promise<unknown>> };
+const validationLocks = globalForStorage.validationLocks ?? new Map<string, Promise<unknown>>();
+globalForStorage.validationLocks = validationLocks;
+
+async function withValidationLock<T>(validationId: string, fn: () => Promise<T>): Promise<T> {
+  const previous = validationLocks.get(validationId) || Promise.resolve();
+  const run = previous.then(fn);
+  const tail = run.catch(() => undefined);
+  validationLocks.set(validationId, tail);
+
+  try {
+    return await run;
+  } finally {
+    if (validationLocks.get(validationId) === tail) validationLocks.delete(validationId);
+  }
+}
+
 // Ensure directories exist
 async function ensureDirectories() {
   try {
@@ -109,19 +129,38 @@ export async function loadValidation(validationId: string): Promise<ValidationRe
   throw new Error('Failed to load validation data after multiple attempts');
 }
 
-// Update validation data
+export interface UpdateValidationOptions {
+  // Compare-and-set: only apply the update while the record has one of these statuses
+  expectedStatus?: ValidationRequest['status'][];
+}
+
+// Update validation data. Returns null when the record doesn't exist or the update was refused
+// because of its status. A cancelled validation keeps that status unless the caller expects
+// CANCELLED (resume), so a late worker or pipeline write can never undo a cancel.
 export async function updateValidation(
   validationId: string, 
-  updates: Partial<ValidationRequest>
+  updates: Partial<ValidationRequest>,
+  options: UpdateValidationOptions = {}
 ): Promise<ValidationRequest | null> {
-  const existing = await loadValidation(validationId);
-  if (!existing) {
-    return null;
-  }
+  return withValidationLock(validationId, async () => {
+    const existing = await loadValidation(validationId);
+    if (!existing) {
+      return null;
+    }
 
-  const updated = { ...existing, ...updates };
-  await saveValidation(updated);
-  return updated;
+    const { expectedStatus } = options;
+    if (expectedStatus && !expectedStatus.includes(existing.status)) {
+      return null;
+    }
+    if (existing.status === 'CANCELLED' && updates.status && updates.status !== 'CANCELLED' && !expectedStatus?.includes('CANCELLED')) {
+      console.log(`🛑 Validation ${validationId} was cancelled, not changing it to ${updates.status}`);
+      return null;
+    }
+
+    const updated = { ...existing, ...updates };
+    await saveValidation(updated);
+    return updated;
+  });
 }
 
 // List all validations (for future admin/history features)
@@ -196,6 +235,16 @@ export async function loadCache(key: string): Promise<any | null> {
   }
 }
 
+export async function deleteCache(key: string): Promise<void> {
+  try {
+    await fs.unlink(path.join(CACHE_DIR, `${key}.json`));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error('Error deleting cache:', error);
+    }
+  }
+}
+
 // Clear expired cache files
 export async function cleanupCache(): Promise<void> {
   await ensureDirectories();
@@ -1,6 +1,6 @@
 import { clsx, type ClassValue } from "clsx"
 import { twMerge } from "tailwind-merge"
-import { GoogleGenerativeAI } from '@google/generative-ai'
+import { getLLMClient } from '@/lib/ai/llm-client'
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
@@ -26,11 +26,10 @@ export function extractKeywords(text: string): string[] {
   return extractKeywordsManual(text);
 }
 
-// Gemini AI keyword extraction (restored)
+// AI keyword extraction (restored)
 async function extractKeywordsAI(text: string): Promise<string[]> {
   try {
-    const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || '');
-    const model = genAI.getGenerativeModel({ model: 'gemini-2.0-flash-exp' });
+    const llm = getLLMClient('keywords');
 
     const prompt = `Extract 5-8 relevant keywords from this startup idea description. Focus on:
     - Main product/service keywords
@@ -42,9 +41,8 @@ async function extractKeywordsAI(text: string): Promise<string[]> {
     
     "${text}"`;
 
-    const result = await model.generateContent(prompt);
-    const response = await result.response;
-    const keywords = response.text()
+    const { text: aiText } = await llm.generate(prompt);
+    const keywords = aiText
       .split(',')
       .map(k => k.trim().toLowerCase())
       .filter(k => k.length > 2 && k.length < 30)
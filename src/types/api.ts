@@ -1,4 +1,4 @@
-import { ValidationRequest, ValidationScore } from './validation';
+import { ProcessingStep, ValidationRequest, ValidationScore } from './validation';
 
 // API Response wrapper
 export interface ApiResponse<T = any> {
@@ -19,16 +19,19 @@ export interface StartValidationRequest {
 
 export interface StartValidationResponse {
   validationId: string;
-  status: 'PROCESSING';
+  jobId: string;
+  status: 'PENDING';
   estimatedTime: number; // minutes
 }
 
 export interface ValidationStatusResponse {
   validationId: string;
-  status: 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED';
+  status: 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
   progress: number;      // 0-100
   currentStep: string;
   estimatedTimeRemaining?: number; // minutes
+  estimatedCompletionAt?: string;
+  processingSteps: ProcessingStep[];
 }
 
 export interface ValidationResultsResponse {
@@ -44,6 +47,16 @@ export interface ValidationResultsResponse {
     opportunities: any;
     actionPlan: any;
   };
+  researchModules?: ResearchModuleInfo[];
+}
+
+// Research module as exposed to the dashboard (see research-registry.ts)
+export interface ResearchModuleInfo {
+  id: string;
+  title: string;
+  resultKey: string;   // Key of the module's output in the results payload
+  card: string;        // Dashboard card id
+  order: number;       // Position of the card on the dashboard
 }
 
 // Data collection API types
@@ -146,8 +159,8 @@ export interface CacheEntry<T = any> {
 export interface ValidationJob {
   id: string;
   validationId: string;
-  type: 'REDDIT_ANALYSIS' | 'TRENDS_ANALYSIS' | 'YOUTUBE_ANALYSIS' | 'AI_PROCESSING' | 'SCORING';
-  status: 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED';
+  type: 'VALIDATION_PIPELINE' | 'REDDIT_ANALYSIS' | 'TRENDS_ANALYSIS' | 'YOUTUBE_ANALYSIS' | 'AI_PROCESSING' | 'SCORING';
+  status: 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
   data: any;
   priority: number;
   attempts: number;
@@ -156,4 +169,8 @@ export interface ValidationJob {
   startedAt?: string;
   completedAt?: string;
   error?: string;
+  workerId?: string;     // Worker currently holding the job
+  heartbeatAt?: string;  // Last liveness signal from that worker
+  runAfter?: string;     // Earliest time the job may be claimed (retry backoff)
+  releases?: number;     // Times a time-boxed worker handed the job back unfinished
 }
\ No newline at end of file
@@ -11,6 +11,7 @@ export interface IdeaFormData {
     targetAudience: string;
     problem: string;
   };
+  refinementId?: string;  // Refinement whose token usage the server adds to the validation's cost
 }
 
 export interface IdeaFormProps {
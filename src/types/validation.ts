@@ -12,8 +12,15 @@ export interface IdeaInput {
   keywords: string[];
   industry?: string;
   targetMarket?: string;
+  refinedIdeaData?: {
+    oneLiner: string;
+    targetAudience: string;
+    problem: string;
+  };
 }
 
+// Demand evidence from the discussion sources (Reddit first, hence the name); quotes carry
+// the id of the source they came from
 export interface RedditInsight {
   posts: RedditPost[];
   sentiment: number;        // 0-10 scale
@@ -21,6 +28,11 @@ export interface RedditInsight {
   discussionVolume: number;
   engagementLevel: number;
   score: number;           // 0-100
+  searchCache?: {
+    hits: number;          // Searches answered from the query cache
+    searches: number;
+  };
+  sources?: EvidenceSourceSummary[];
   realData?: {
     totalMentions: number;
     frustratedUsers: number;
@@ -36,10 +48,84 @@ export interface RedditInsight {
       subreddit: string;
       upvotes: number;
       sentiment: 'frustrated' | 'neutral' | 'satisfied';
+      url?: string;          // Post the quote was matched to
+      matchScore?: number;   // 0-1 similarity to the source text
+      verified?: boolean;    // Close enough to count as verbatim
+      origin?: string;       // Evidence source id; missing on records from before there were several
     }>;
   };
 }
 
+// Post from any evidence source, normalized so analysis doesn't depend on where it came from
+export interface EvidenceItem {
+  id: string;              // Unique within its source
+  origin: string;          // Evidence source id, e.g. 'reddit'
+  title: string;
+  content: string;
+  author: string;
+  score: number;           // Upvotes, points or likes
+  community: string;       // Where it was posted, e.g. a subreddit name
+  url: string;
+  createdAt: string;
+  numComments: number;
+  comments?: ThreadComment[];
+}
+
+// What one evidence source contributed to a validation
+export interface EvidenceSourceSummary {
+  id: string;
+  label: string;
+  searches: number;
+  cacheHits: number;
+  itemsFound: number;
+  error?: string;          // The source failed and contributed nothing
+}
+
+// Comment under an evidence item, with its replies nested below it
+export interface ThreadComment {
+  id: string;
+  author: string;
+  body: string;
+  ups: number;
+  permalink: string;       // Full URL of the comment itself
+  depth: number;           // 0 for top-level comments
+  replies: ThreadComment[];
+}
+
+// How the Reddit step searches each subreddit (defaults in reddit.ts)
+export interface RedditSearchOptions {
+  timeFilter?: 'hour' | 'day' | 'week' | 'month' | 'year' | 'all';
+  sort?: 'relevance' | 'hot' | 'top' | 'new' | 'comments';
+  maxPages?: number;        // Result pages per query, followed with the `after` cursor
+  minScore?: number;        // Posts below this score are skipped
+  maxPosts?: number;        // Stop collecting once this many posts are gathered
+}
+
+// Community picked by the keyword step for the Reddit search
+export interface RecommendedSubreddit {
+  name: string;
+  reason?: string;
+  memberCount?: string;     // As reported by the model, e.g. '1.2M'; replaced once checked
+  activityLevel?: string;
+  subscribers?: number;     // From Reddit's about endpoint
+  lastPostAt?: string;
+  verified?: boolean;       // Checked against Reddit before searching
+}
+
+// Result of looking a subreddit up on Reddit (see subreddit-resolver.ts)
+export interface SubredditCheck {
+  name: string;
+  status: 'ok' | 'not_found' | 'banned' | 'private' | 'quarantined' | 'nsfw' | 'too_small' | 'inactive' | 'error';
+  subscribers?: number;
+  activeUsers?: number;
+  over18?: boolean;
+  quarantined?: boolean;
+  subredditType?: string;   // public, restricted, private, ...
+  lastPostAt?: string;
+  error?: string;
+  checkedAt: string;
+}
+
 export interface RedditPost {
   title: string;
   content: string;
@@ -105,29 +191,96 @@ export interface Risk {
 
 export interface ProcessingStep {
   step: number;
+  id: string;
   title: string;
   description: string;
-  progress: number;
+  weight: number;          // Share of overall progress this step represents
   status: 'pending' | 'processing' | 'completed' | 'failed';
   dataFound?: number;
   errorMessage?: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+// Prompt id -> version of the template that was sent to the model
+export interface PromptVersions {
+  [promptId: string]: number;
+}
+
+// Tokens spent by one model call
+export interface ModelUsage {
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  estimated?: boolean;     // Provider reported no usage, counted from text length
+  cached?: boolean;        // Served from the response cache; the tokens were not billed again
+}
+
+// Ledger entry, tagged with the step (AI task) that made the call
+export interface TokenUsageEntry extends ModelUsage {
+  step: string;
+  recordedAt: string;
+}
+
+export interface CostLineItem {
+  step: string;
+  model: string;
+  calls: number;
+  cachedCalls: number;     // Calls answered from the response cache, not counted in tokens or cost
+  promptTokens: number;
+  completionTokens: number;
+  cost: number | null;     // USD; null when the model has no price table entry
+}
+
+export interface CostBreakdown {
+  currency: 'USD';
+  totalCost: number;       // Sum of priced line items
+  totalPromptTokens: number;
+  totalCompletionTokens: number;
+  calls: number;
+  cacheHits: number;
+  items: CostLineItem[];
+  unpricedModels: string[];
+  computedAt: string;
+}
+
+// Saved output of a completed pipeline step, reused when a failed validation is resumed.
+// Checkpoints are keyed by step id: step numbers shift whenever steps are added to the pipeline.
+export interface StepCheckpoint {
+  stepId: string;
+  step: number;            // Position when the checkpoint was saved, for display only
+  output: any;
+  dataPoints?: number;
+  description?: string;    // Completion message shown for the step
+  promptVersions?: PromptVersions;
+  completedAt: string;
 }
 
 export interface ValidationRequest {
   id: string;
   createdAt: string;
   idea: IdeaInput;
-  status: 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED';
+  status: 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
   progress: number;        // 0-100
   currentStep: string;
   redditData?: RedditInsight;
+  keywords?: string[];
+  recommendedSubreddits?: RecommendedSubreddit[];
   trendsData?: TrendsData;
   youtubeData?: YouTubeInsight;
   aiAnalysis?: AIAnalysis;
   finalScore?: any; // Changed from ValidationScore to any to support new structure
   completedAt?: string;
+  cancelledAt?: string;
   errorMessage?: string;
   processingSteps?: ProcessingStep[];
+  estimatedCompletionAt?: string;  // Projected from historical step durations
+  stepCheckpoints?: { [stepId: string]: StepCheckpoint };
+  promptVersions?: PromptVersions;  // Prompts that produced this report, collected from the steps
+  costBreakdown?: CostBreakdown;
+  bypassCache?: boolean;   // Skip cached AI responses for this validation
+  searchOptions?: RedditSearchOptions;
   totalDataPoints?: number;
   // New AI research data from extended pipeline
   competitorData?: any;